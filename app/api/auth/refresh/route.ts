@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import config from "../../../../lib/config";
+import {
+  clearSessionCookies,
+  setSessionCookies,
+} from "../../../../lib/session-cookies";
+
+// Exchange the refresh cookie for a new access token (and rotated refresh token)
+export async function POST(request: NextRequest) {
+  const refreshToken = request.cookies.get(
+    config.auth.cookies.refreshToken
+  )?.value;
+
+  if (!refreshToken) {
+    return NextResponse.json(
+      { success: false, message: "No active session" },
+      { status: 401 }
+    );
+  }
+
+  let backendResponse: Response;
+  try {
+    backendResponse = await fetch(`${config.backendUrl}/auth/refresh`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ refreshToken }),
+    });
+  } catch (error) {
+    // Keep the cookies; the client retries transient failures
+    console.error("Error refreshing token:", error);
+    return NextResponse.json(
+      { success: false, message: "Unable to reach the authentication service" },
+      { status: 502 }
+    );
+  }
+
+  const data = (await backendResponse.json().catch(() => null)) as {
+    accessToken?: string;
+    refreshToken?: string;
+  } | null;
+
+  if (!backendResponse.ok || !data?.accessToken) {
+    const response = NextResponse.json(
+      { success: false, message: "Session expired" },
+      { status: 401 }
+    );
+    clearSessionCookies(response);
+    return response;
+  }
+
+  const response = NextResponse.json({ success: true });
+  setSessionCookies(response, {
+    accessToken: data.accessToken,
+    refreshToken: data.refreshToken || refreshToken,
+  });
+  return response;
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import config from "../../../../lib/config";
+import { verifyOtpSchema } from "../../../../lib/schemas";
+import { setSessionCookies } from "../../../../lib/session-cookies";
+import { formatIssues } from "../../../../lib/validation";
+
+// Verify the OTP with the backend and keep the issued tokens in httpOnly cookies.
+// Only the user is returned to the browser.
+export async function POST(request: NextRequest) {
+  let backendResponse: Response;
+  try {
+    backendResponse = await fetch(
+      `${config.backendUrl}${config.endpoints.auth}/verify-otp`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: await request.text(),
+      }
+    );
+  } catch (error) {
+    console.error("Error reaching auth backend:", error);
+    return NextResponse.json(
+      { success: false, message: "Unable to reach the authentication service" },
+      { status: 502 }
+    );
+  }
+
+  const body = (await backendResponse.json().catch(() => null)) as {
+    success?: boolean;
+    message?: string;
+    data?: unknown;
+  } | null;
+
+  if (!backendResponse.ok || !body || body.success !== true) {
+    return NextResponse.json(
+      body || { success: false, message: "OTP verification failed" },
+      { status: backendResponse.status }
+    );
+  }
+
+  const validated = verifyOtpSchema(body.data, "data");
+  if (!validated.ok) {
+    return NextResponse.json(
+      {
+        success: false,
+        message: `Unexpected response from server (${formatIssues(
+          validated.issues,
+          1
+        )})`,
+      },
+      { status: 502 }
+    );
+  }
+
+  const { accessToken, refreshToken, user } = validated.value;
+  const response = NextResponse.json({
+    success: true,
+    message: body.message,
+    data: { user },
+  });
+  setSessionCookies(response, { accessToken, refreshToken });
+  return response;
+}
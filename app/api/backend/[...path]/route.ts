@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import config from "../../../../lib/config";
+
+// Forward an authenticated request to the backend with the access token from
+// the session cookie, so the token never reaches browser JavaScript
+async function forward(
+  request: NextRequest,
+  { params }: { params: Promise<{ path: string[] }> }
+) {
+  const accessToken = request.cookies.get(
+    config.auth.cookies.accessToken
+  )?.value;
+
+  // 401 prompts the client to refresh the session and retry
+  if (!accessToken) {
+    return NextResponse.json(
+      { success: false, message: "Not authenticated" },
+      { status: 401 }
+    );
+  }
+
+  const { path } = await params;
+  const target = `${config.backendUrl}/${path.join("/")}${
+    request.nextUrl.search
+  }`;
+  const hasBody = request.method !== "GET" && request.method !== "HEAD";
+  const idempotencyKey = request.headers.get("idempotency-key");
+
+  try {
+    const response = await fetch(target, {
+      method: request.method,
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        "Content-Type":
+          request.headers.get("content-type") || "application/json",
+        ...(idempotencyKey && { "Idempotency-Key": idempotencyKey }),
+      },
+      body: hasBody ? await request.text() : undefined,
+      cache: "no-store",
+    });
+
+    return new NextResponse(response.body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: {
+        "Content-Type":
+          response.headers.get("content-type") || "application/json",
+      },
+    });
+  } catch (error) {
+    console.error(`Error forwarding request to ${target}:`, error);
+    return NextResponse.json(
+      { success: false, message: "Unable to reach the server" },
+      { status: 502 }
+    );
+  }
+}
+
+export {
+  forward as GET,
+  forward as POST,
+  forward as PUT,
+  forward as PATCH,
+  forward as DELETE,
+};
@@ -0,0 +1,39 @@
+import { createHmac } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+
+// Test key secret shared with a backend running Razorpay in test mode. Kept
+// server-side so it never reaches the client bundle.
+const MOCK_KEY_SECRET = process.env.MOCK_RAZORPAY_KEY_SECRET;
+
+// Anyone who can call this route can sign any payment, so it needs a
+// server-side flag and a configured secret, and never runs in production
+const signingEnabled =
+  process.env.NODE_ENV !== "production" &&
+  process.env.MOCK_RAZORPAY_SIGNING === "true";
+
+// Sign a mock checkout payment the way Razorpay does:
+// HMAC-SHA256("order_id|payment_id") with the key secret, hex encoded
+export async function POST(request: NextRequest) {
+  if (!signingEnabled || !MOCK_KEY_SECRET) {
+    return NextResponse.json(
+      { success: false, message: "Mock checkout is disabled" },
+      { status: 404 }
+    );
+  }
+
+  const body = (await request.json().catch(() => null)) as {
+    orderId?: unknown;
+    paymentId?: unknown;
+  } | null;
+  if (typeof body?.orderId !== "string" || typeof body.paymentId !== "string") {
+    return NextResponse.json(
+      { success: false, message: "orderId and paymentId are required" },
+      { status: 400 }
+    );
+  }
+
+  const signature = createHmac("sha256", MOCK_KEY_SECRET)
+    .update(`${body.orderId}|${body.paymentId}`)
+    .digest("hex");
+  return NextResponse.json({ success: true, data: { signature } });
+}
@@ -2,34 +2,9 @@
 
 import { useState, useEffect, useCallback } from "react";
 import { useRouter } from "next/navigation";
-import { AuthService } from "../../lib/auth";
-
-interface SendOTPResponse {
-  success: boolean;
-  message: string;
-  data: {
-    verificationId: string;
-    timeout: string;
-  };
-}
-
-interface VerifyOTPResponse {
-  success: boolean;
-  message: string;
-  data: {
-    accessToken: string;
-    refreshToken: string;
-    user: {
-      id: string;
-      phoneNumber: string;
-      role: string;
-      isActive: boolean;
-    };
-  };
-}
-
-const BACKEND_URL =
-  process.env.NEXT_PUBLIC_BACKEND_URL || "https://sojournbackend.onrender.com";
+import { AuthService, User } from "../../lib/auth";
+import ApiClient from "../../lib/api-client";
+import { useAuth } from "../../components/auth/AuthProvider";
 
 export default function AuthPage() {
   const router = useRouter();
@@ -54,22 +29,20 @@ export default function AuthPage() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
   const [timeout, setTimeout] = useState<number>(0);
-
-  // Determine the final return URL (from params, localStorage, or default)
-  const getReturnUrl = useCallback(() => {
-    if (returnUrlFromParams) {
-      // Clear any stored URL since we're using the param one
-      AuthService.clearReturnUrl();
-      return returnUrlFromParams;
-    }
-    const storedUrl = AuthService.getAndClearReturnUrl();
-    return storedUrl || "/";
-  }, [returnUrlFromParams]);
+  const { signIn } = useAuth();
+
+  // Determine the final return URL (from params, localStorage, or default);
+  // only allowed same-origin paths are ever returned
+  const getReturnUrl = useCallback(
+    (user: User | null) =>
+      AuthService.resolveReturnUrl(returnUrlFromParams, user),
+    [returnUrlFromParams]
+  );
 
   // Check if user is already authenticated
   useEffect(() => {
     if (AuthService.isAuthenticated()) {
-      const redirectUrl = getReturnUrl();
+      const redirectUrl = getReturnUrl(AuthService.getUser());
       router.push(redirectUrl);
     }
   }, [router, getReturnUrl]);
@@ -79,31 +52,19 @@ export default function AuthPage() {
     setLoading(true);
     setError("");
 
-    try {
-      const response = await fetch(`${BACKEND_URL}/api/auth/send-otp`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ phoneNumber }),
-      });
-
-      const data: SendOTPResponse = await response.json();
+    const result = await ApiClient.sendOtp(phoneNumber);
 
-      if (data.success) {
-        setVerificationId(data.data.verificationId);
-        setTimeout(parseInt(data.data.timeout));
-        setStep("otp");
-        // Start countdown timer
-        startCountdown(parseInt(data.data.timeout));
-      } else {
-        setError(data.message || "Failed to send OTP");
-      }
-    } catch {
-      setError("Network error. Please try again.");
-    } finally {
-      setLoading(false);
+    if (result.ok) {
+      setVerificationId(result.data.verificationId);
+      setTimeout(parseInt(result.data.timeout));
+      setStep("otp");
+      // Start countdown timer
+      startCountdown(parseInt(result.data.timeout));
+    } else {
+      setError(result.error.message);
     }
+
+    setLoading(false);
   };
 
   const handleVerifyOTP = async (e: React.FormEvent) => {
@@ -111,42 +72,24 @@ export default function AuthPage() {
     setLoading(true);
     setError("");
 
-    try {
-      const response = await fetch(`${BACKEND_URL}/api/auth/verify-otp`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          phoneNumber,
-          verificationId,
-          code: otp,
-        }),
-      });
-
-      const data: VerifyOTPResponse = await response.json();
-
-      if (data.success) {
-        // Store tokens using AuthService
-        AuthService.setAuthData(
-          {
-            accessToken: data.data.accessToken,
-            refreshToken: data.data.refreshToken,
-          },
-          data.data.user
-        );
-
-        // Redirect to returnUrl if available, otherwise to dashboard
-        const redirectUrl = getReturnUrl();
-        window.location.href = redirectUrl;
-      } else {
-        setError(data.message || "Invalid OTP");
-      }
-    } catch {
-      setError("Network error. Please try again.");
-    } finally {
-      setLoading(false);
+    const result = await ApiClient.verifyOtp({
+      phoneNumber,
+      verificationId,
+      code: otp,
+    });
+
+    if (result.ok) {
+      // Store tokens and start the session
+      signIn(result.data.tokens, result.data.user);
+
+      // Redirect to returnUrl if available, otherwise to the role home route
+      const redirectUrl = getReturnUrl(result.data.user);
+      window.location.href = redirectUrl;
+    } else {
+      setError(result.error.message);
     }
+
+    setLoading(false);
   };
 
   const startCountdown = (seconds: number) => {
@@ -0,0 +1,555 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useParams, useRouter } from "next/navigation";
+import Link from "next/link";
+import ApiClient, {
+  ApiError,
+  BookingModification,
+  Hotel,
+} from "../../../../lib/api-client";
+import { Booking, normalizeBooking } from "../../../../lib/booking-normalizer";
+import { canPerform } from "../../../../lib/booking-state";
+import BookingAttempts from "../../../../lib/booking-attempt";
+import CheckoutService from "../../../../lib/checkout";
+import {
+  getAmountPaid,
+  getRoomOptions,
+  RoomOption,
+  StayChanges,
+} from "../../../../lib/booking-modification";
+import { toDateKey, toDayKey } from "../../../../lib/dates";
+import { formatRupees } from "../../../../lib/pricing";
+import { useAuth } from "../../../../components/auth/AuthProvider";
+import { RequireAuth } from "../../../../components/auth/RequireAuth";
+import StayPriceBreakdown from "../../../../components/booking/StayPriceBreakdown";
+
+export default function ModifyBookingPage() {
+  return (
+    <RequireAuth>
+      <ModifyBooking />
+    </RequireAuth>
+  );
+}
+
+const differenceLabel = (difference: number) => {
+  if (difference > 0) return "To pay";
+  if (difference < 0) return "Refund due";
+  return "No change in price";
+};
+
+function ModifyBooking() {
+  const params = useParams();
+  const router = useRouter();
+  const { signOut } = useAuth();
+  const bookingId = params.id as string;
+  const attemptScope = `modify:${bookingId}`;
+
+  const [booking, setBooking] = useState<Booking | null>(null);
+  const [hotel, setHotel] = useState<Hotel | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const [changes, setChanges] = useState<StayChanges>({
+    checkInDate: "",
+    checkOutDate: "",
+    numberOfGuests: 1,
+  });
+  // Room options for the stay they were checked against
+  const [options, setOptions] = useState<RoomOption[] | null>(null);
+  const [checkedStay, setCheckedStay] = useState<StayChanges | null>(null);
+  const [selectedRoomId, setSelectedRoomId] = useState("");
+  const [checking, setChecking] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [modification, setModification] = useState<BookingModification | null>(
+    null
+  );
+  const [balanceDue, setBalanceDue] = useState(false);
+
+  const handleApiError = (error: ApiError, fallback: string) => {
+    if (error.kind === "auth") {
+      // RequireAuth redirects to sign-in once the session is cleared
+      signOut();
+      return;
+    }
+    console.error(fallback, error);
+    setFormError(
+      error.kind === "network" ? `${fallback} Please try again.` : error.message
+    );
+  };
+
+  useEffect(() => {
+    const fetchBooking = async () => {
+      const result = await ApiClient.getBooking(bookingId);
+
+      if (!result.ok) {
+        if (result.error.kind === "auth") {
+          signOut();
+          return;
+        }
+        console.error("Error fetching booking:", result.error);
+        setLoadError(result.error.message);
+        setLoading(false);
+        return;
+      }
+
+      const loaded = normalizeBooking(result.data, bookingId);
+      setBooking(loaded);
+      setChanges({
+        checkInDate: toDayKey(loaded.checkInDate),
+        checkOutDate: toDayKey(loaded.checkOutDate),
+        numberOfGuests: loaded.numberOfGuests || 1,
+      });
+
+      if (!canPerform(loaded, "CUSTOMER", "MODIFY") || !loaded.hotel.id) {
+        setLoadError("This booking can't be changed online.");
+      } else {
+        const hotelResult = await ApiClient.getHotel(loaded.hotel.id);
+        if (hotelResult.ok) {
+          setHotel(hotelResult.data);
+        } else {
+          console.error("Error fetching hotel:", hotelResult.error);
+          setLoadError(hotelResult.error.message);
+        }
+      }
+      setLoading(false);
+    };
+
+    fetchBooking();
+  }, [bookingId, signOut]);
+
+  const updateChanges = (update: Partial<StayChanges>) => {
+    setChanges((prev) => ({ ...prev, ...update }));
+    // Prices were for the previous stay
+    setOptions(null);
+    setCheckedStay(null);
+    setFormError(null);
+  };
+
+  const validateChanges = (): string | null => {
+    const today = toDateKey(new Date());
+    if (!changes.checkInDate || !changes.checkOutDate) {
+      return "Choose check-in and check-out dates.";
+    }
+    if (changes.checkInDate < today) {
+      return "Check-in can't be in the past.";
+    }
+    if (changes.checkOutDate <= changes.checkInDate) {
+      return "Check-out must be after check-in.";
+    }
+    if (changes.numberOfGuests < 1) {
+      return "At least one guest is required.";
+    }
+    return null;
+  };
+
+  const handleCheckAvailability = async () => {
+    if (!booking || !hotel) return;
+
+    const invalid = validateChanges();
+    if (invalid) {
+      setFormError(invalid);
+      return;
+    }
+
+    setChecking(true);
+    setFormError(null);
+    const result = await ApiClient.checkAvailability(hotel.id, {
+      checkIn: changes.checkInDate,
+      checkOut: changes.checkOutDate,
+      guests: changes.numberOfGuests,
+    });
+
+    if (result.ok) {
+      const roomOptions = getRoomOptions(
+        booking,
+        hotel,
+        result.data.availableRooms,
+        changes
+      );
+      setOptions(roomOptions);
+      setCheckedStay(changes);
+      setSelectedRoomId(
+        roomOptions.find((option) => option.current)?.roomId ||
+          roomOptions[0]?.roomId ||
+          ""
+      );
+    } else {
+      handleApiError(result.error, "Failed to check availability.");
+    }
+    setChecking(false);
+  };
+
+  const openBalancePayment = async (result: BookingModification) => {
+    if (!result.paymentOrder) return;
+
+    const checkout = await CheckoutService.open(
+      bookingId,
+      result.paymentOrder,
+      {
+        onPaymentResult: (payment) => {
+          if (payment.ok) {
+            alert("Payment successful! Your booking has been updated.");
+          } else {
+            console.error("Payment verification failed:", payment.error);
+            alert(
+              "We received your payment but could not confirm it yet. We will keep checking, and your booking will update automatically. Please do not pay again."
+            );
+          }
+          router.push(`/bookings/${bookingId}`);
+        },
+        onDismiss: () => setBalanceDue(true),
+        onFailure: (failure) => {
+          if (failure.retriesLeft === 0) {
+            setFormError(failure.message);
+            setBalanceDue(true);
+          }
+        },
+      }
+    );
+    if (!checkout.ok) {
+      setFormError("Failed to initialize payment. Please try again.");
+      setBalanceDue(true);
+    }
+  };
+
+  const handleSubmit = async () => {
+    const option = options?.find((room) => room.roomId === selectedRoomId);
+    if (!checkedStay || !option) {
+      setFormError("Check availability and choose a room first.");
+      return;
+    }
+
+    setSubmitting(true);
+    setFormError(null);
+    const request = { ...checkedStay, roomId: option.roomId };
+    // Resubmitting the same change replays the key instead of modifying twice
+    const attempt = BookingAttempts.begin(attemptScope, request);
+    const result = await ApiClient.modifyBooking(
+      bookingId,
+      request,
+      attempt.key
+    );
+
+    if (result.ok) {
+      BookingAttempts.clear(attemptScope);
+      setModification(result.data);
+      if (result.data.priceDifference > 0 && result.data.paymentOrder) {
+        await openBalancePayment(result.data);
+      }
+    } else if (
+      result.error.message.includes("not available") ||
+      result.error.status === 409
+    ) {
+      setOptions(null);
+      setCheckedStay(null);
+      setFormError(
+        "That room is no longer available for these dates. Please check availability again."
+      );
+    } else {
+      handleApiError(result.error, "Failed to modify booking.");
+    }
+    setSubmitting(false);
+  };
+
+  if (loading) {
+    return (
+      <div className='min-h-screen flex items-center justify-center'>
+        <div className='animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600'></div>
+      </div>
+    );
+  }
+
+  if (!booking || !hotel) {
+    return (
+      <div className='min-h-screen flex items-center justify-center'>
+        <div className='text-center'>
+          <h1 className='text-2xl font-bold text-gray-900 mb-4'>
+            Booking Can&apos;t Be Modified
+          </h1>
+          {loadError && (
+            <p className='text-sm text-red-600 mb-4'>{loadError}</p>
+          )}
+          <Link
+            href={`/bookings/${bookingId}`}
+            className='text-blue-600 hover:text-blue-700'
+          >
+            Back to Booking
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const amountPaid = getAmountPaid(booking);
+  const selected = options?.find((room) => room.roomId === selectedRoomId);
+
+  return (
+    <div className='min-h-screen bg-gray-50'>
+      <main className='max-w-3xl mx-auto px-4 py-6'>
+        <Link
+          href={`/bookings/${bookingId}`}
+          className='text-blue-600 hover:text-blue-700 text-sm font-medium'
+        >
+          ← Back to Booking
+        </Link>
+
+        <div className='bg-white rounded-lg shadow-md p-6 mt-4'>
+          <h1 className='text-2xl font-bold text-gray-900'>Modify Booking</h1>
+          <p className='text-gray-800 mt-1'>
+            {booking.hotel.name} · {booking.room.type} · Booking{" "}
+            <span className='font-mono text-sm'>
+              {booking.reference || booking.id}
+            </span>
+          </p>
+
+          {modification ? (
+            <ModificationResult
+              bookingId={bookingId}
+              modification={modification}
+              balanceDue={balanceDue}
+              onPayBalance={() => {
+                setBalanceDue(false);
+                void openBalancePayment(modification);
+              }}
+            />
+          ) : (
+            <>
+              {/* New stay */}
+              <div className='grid grid-cols-1 sm:grid-cols-3 gap-4 mt-6'>
+                <label className='text-sm text-gray-800'>
+                  Check-in
+                  <input
+                    type='date'
+                    value={changes.checkInDate}
+                    min={toDateKey(new Date())}
+                    onChange={(e) =>
+                      updateChanges({ checkInDate: e.target.value })
+                    }
+                    className='mt-1 w-full border border-gray-300 rounded-lg px-3 py-2 text-gray-900'
+                  />
+                </label>
+                <label className='text-sm text-gray-800'>
+                  Check-out
+                  <input
+                    type='date'
+                    value={changes.checkOutDate}
+                    min={changes.checkInDate || toDateKey(new Date())}
+                    onChange={(e) =>
+                      updateChanges({ checkOutDate: e.target.value })
+                    }
+                    className='mt-1 w-full border border-gray-300 rounded-lg px-3 py-2 text-gray-900'
+                  />
+                </label>
+                <label className='text-sm text-gray-800'>
+                  Guests
+                  <input
+                    type='number'
+                    min={1}
+                    value={changes.numberOfGuests}
+                    onChange={(e) =>
+                      updateChanges({
+                        numberOfGuests: parseInt(e.target.value) || 1,
+                      })
+                    }
+                    className='mt-1 w-full border border-gray-300 rounded-lg px-3 py-2 text-gray-900'
+                  />
+                </label>
+              </div>
+
+              <button
+                onClick={handleCheckAvailability}
+                disabled={checking}
+                className='mt-4 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg text-sm font-medium disabled:opacity-50'
+              >
+                {checking ? "Checking..." : "Check Availability"}
+              </button>
+
+              {/* Rooms */}
+              {options && (
+                <div className='mt-6'>
+                  <h2 className='font-semibold text-gray-800 mb-3'>
+                    Choose a room
+                  </h2>
+                  {options.length === 0 ? (
+                    <p className='text-sm text-gray-800'>
+                      No rooms are available for these dates and guests.
+                    </p>
+                  ) : (
+                    <div className='space-y-2'>
+                      {options.map((option) => (
+                        <label
+                          key={option.roomId}
+                          className={`flex items-center justify-between border rounded-lg p-3 cursor-pointer ${
+                            option.roomId === selectedRoomId
+                              ? "border-blue-600 bg-blue-50"
+                              : "border-gray-200"
+                          }`}
+                        >
+                          <span className='flex items-center gap-3'>
+                            <input
+                              type='radio'
+                              name='room'
+                              checked={option.roomId === selectedRoomId}
+                              onChange={() => setSelectedRoomId(option.roomId)}
+                            />
+                            <span>
+                              <span className='font-medium text-gray-900'>
+                                {option.roomType}
+                              </span>
+                              <span className='text-sm text-gray-600'>
+                                {" "}
+                                · Room {option.roomNumber} · up to{" "}
+                                {option.capacity} guests
+                              </span>
+                              {option.current && (
+                                <span className='ml-2 px-2 py-0.5 bg-gray-100 text-gray-800 text-xs rounded-full'>
+                                  Current room
+                                </span>
+                              )}
+                            </span>
+                          </span>
+                          <span className='text-gray-900 font-medium'>
+                            {formatRupees(option.price.total)}
+                          </span>
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Price difference */}
+              {selected && (
+                <div className='mt-6 border-t pt-4 space-y-2 text-sm text-gray-800'>
+                  <StayPriceBreakdown
+                    price={selected.price}
+                    totalLabel='New total'
+                  />
+                  <div className='flex justify-between'>
+                    <span className='text-gray-800'>Already paid</span>
+                    <span className='text-gray-900'>
+                      {formatRupees(amountPaid)}
+                    </span>
+                  </div>
+                  <div className='flex justify-between text-lg font-bold'>
+                    <span className='text-gray-900'>
+                      {differenceLabel(selected.difference)}
+                    </span>
+                    {selected.difference !== 0 && (
+                      <span
+                        className={
+                          selected.difference > 0
+                            ? "text-gray-900"
+                            : "text-green-700"
+                        }
+                      >
+                        {formatRupees(Math.abs(selected.difference))}
+                      </span>
+                    )}
+                  </div>
+                  <p className='text-xs text-gray-500'>
+                    The final amount is confirmed when you submit the change.
+                  </p>
+                </div>
+              )}
+
+              {selected && (
+                <button
+                  onClick={handleSubmit}
+                  disabled={submitting}
+                  className='mt-4 w-full bg-green-600 hover:bg-green-700 text-white px-4 py-3 rounded-lg font-medium disabled:opacity-50'
+                >
+                  {submitting && "Updating Booking..."}
+                  {!submitting &&
+                    (selected.difference > 0
+                      ? "Confirm Changes & Pay"
+                      : "Confirm Changes")}
+                </button>
+              )}
+            </>
+          )}
+
+          {formError && (
+            <div className='mt-4 bg-red-50 border border-red-200 p-3 text-sm text-red-800'>
+              {formError}
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
+
+interface ModificationResultProps {
+  bookingId: string;
+  modification: BookingModification;
+  balanceDue: boolean;
+  onPayBalance: () => void;
+}
+
+// What the backend settled on once the change was accepted
+function ModificationResult({
+  bookingId,
+  modification,
+  balanceDue,
+  onPayBalance,
+}: ModificationResultProps) {
+  const { priceDifference, refund } = modification;
+
+  return (
+    <div className='mt-6 space-y-4'>
+      <div className='bg-green-50 border border-green-200 p-4 text-sm text-green-800'>
+        Your booking has been updated. New total:{" "}
+        <span className='font-medium'>
+          {formatRupees(modification.totalAmount)}
+        </span>
+      </div>
+
+      {priceDifference > 0 && balanceDue && (
+        <div className='bg-yellow-50 border border-yellow-200 p-4 text-sm text-yellow-800'>
+          A balance of {formatRupees(priceDifference)} is still due.
+          {modification.paymentOrder && (
+            <button
+              onClick={onPayBalance}
+              className='ml-3 bg-green-600 hover:bg-green-700 text-white px-3 py-1 rounded-lg text-sm font-medium'
+            >
+              Pay Balance
+            </button>
+          )}
+        </div>
+      )}
+
+      {priceDifference < 0 && (
+        <div className='bg-blue-50 border border-blue-200 p-4 text-sm text-blue-800'>
+          A refund of{" "}
+          <span className='font-medium'>
+            {formatRupees(Math.abs(refund?.amount ?? priceDifference))}
+          </span>{" "}
+          is due to you.
+          {refund && <> Refund status: {refund.status}.</>}
+          {refund?.expectedBy && (
+            <>
+              {" "}
+              Expected by{" "}
+              {new Date(refund.expectedBy).toLocaleDateString("en-IN", {
+                day: "numeric",
+                month: "long",
+                year: "numeric",
+              })}
+              .
+            </>
+          )}
+        </div>
+      )}
+
+      <Link
+        href={`/bookings/${bookingId}`}
+        className='inline-block text-blue-600 hover:text-blue-700 font-medium'
+      >
+        View Booking
+      </Link>
+    </div>
+  );
+}
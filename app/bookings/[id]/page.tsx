@@ -1,146 +1,77 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
-import { useParams, useRouter } from "next/navigation";
+import { useParams } from "next/navigation";
 import Link from "next/link";
-import { AuthService } from "../../../lib/auth";
-
-interface BookingDetails {
-  bookingRef: string;
-  status: string;
-  checkInDate: string;
-  checkOutDate: string;
-  numberOfGuests: number;
-  totalAmount: number;
-  createdAt: string;
-  specialRequests?: string;
-  guests: Array<{
-    firstName: string;
-    lastName: string;
-    age?: number;
-    isPrimaryGuest: boolean;
-    specialRequests?: string;
-    idProofType?: string;
-    idProofNumber?: string;
-  }>;
-  hotel: {
-    name: string;
-    category: string;
-    address: string;
-    contactNumbers: string[];
-  };
-  room: {
-    type: string;
-    number: string;
-    capacity: number;
-    amenities: string[];
-  };
-  customer: {
-    phoneNumber: string;
-    firstName: string;
-    lastName: string;
-    email: string;
-    emergencyContact?: string;
-    idProofType?: string;
-    idProofNumber?: string;
-  };
-  payment?: {
-    paymentStatus: string;
-    paymentMethod: string;
-    totalAmount: number;
-    processedAt: string;
-  };
-  vendor: {
-    businessName: string;
-    contactNumbers: string[];
-  };
-}
-
-const BACKEND_URL =
-  process.env.NEXT_PUBLIC_BACKEND_URL || "https://sojournbackend.onrender.com";
+import ApiClient, { ApiError } from "../../../lib/api-client";
+import { Booking, normalizeBooking } from "../../../lib/booking-normalizer";
+import { canPerform, getStatusMeta } from "../../../lib/booking-state";
+import CheckoutService from "../../../lib/checkout";
+import { buildReceipt, getChargeBreakdown } from "../../../lib/receipt";
+import { useAuth } from "../../../components/auth/AuthProvider";
+import { RequireAuth } from "../../../components/auth/RequireAuth";
+import CancelBookingDialog from "../../../components/booking/CancelBookingDialog";
+import CompletePaymentButton from "../../../components/booking/CompletePaymentButton";
+import HoldCountdown from "../../../components/booking/HoldCountdown";
+import ChargeBreakdownTable from "../../../components/booking/ChargeBreakdownTable";
+import InvoiceDownload from "../../../components/booking/InvoiceDownload";
+import RefundStatus from "../../../components/booking/RefundStatus";
+import { useUnverifiedPayments } from "../../../lib/use-unverified-payments";
 
 export default function BookingDetailsPage() {
+  return (
+    <RequireAuth>
+      <BookingDetails />
+    </RequireAuth>
+  );
+}
+
+function BookingDetails() {
   const params = useParams();
-  const router = useRouter();
+  const { signOut } = useAuth();
+  const unverifiedPayments = useUnverifiedPayments();
   const bookingId = params.id as string;
 
-  const [booking, setBooking] = useState<BookingDetails | null>(null);
+  const [booking, setBooking] = useState<Booking | null>(null);
   const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [cancelling, setCancelling] = useState(false);
 
   // Helper function to handle authentication errors
   const handleAuthError = useCallback(
-    (error: unknown) => {
-      if (
-        error instanceof Error &&
-        (error.message.includes("No access token") ||
-          error.message.includes("Authentication failed") ||
-          error.message.includes("Unable to refresh token"))
-      ) {
-        // Clear any loading states and redirect
-        setLoading(false);
-
-        // Store current URL as return URL
-        const returnUrl = window.location.pathname + window.location.search;
-        AuthService.setReturnUrl(returnUrl);
-
-        router.push(`/auth?returnUrl=${encodeURIComponent(returnUrl)}`);
+    (error: ApiError) => {
+      if (error.kind === "auth") {
+        // RequireAuth redirects to sign-in once the session is cleared
+        signOut();
         return true;
       }
       return false;
     },
-    [router]
+    [signOut]
   );
 
   const fetchBookingDetails = useCallback(async () => {
-    try {
-      const response = await AuthService.authenticatedFetch(
-        `${BACKEND_URL}/api/hotels/bookings/${bookingId}`
-      );
-      const data = await response.json();
-
-      if (data.success) {
-        setBooking(data.data);
-      }
-    } catch (error) {
-      console.error("Error fetching booking details:", error);
+    const result = await ApiClient.getBooking(bookingId);
+
+    if (result.ok) {
+      setBooking(normalizeBooking(result.data, bookingId));
+    } else {
+      console.error("Error fetching booking details:", result.error);
 
       // Handle authentication errors
-      if (handleAuthError(error)) {
+      if (handleAuthError(result.error)) {
         return;
       }
-    } finally {
-      setLoading(false);
+
+      setLoadError(result.error.message);
     }
+
+    setLoading(false);
   }, [bookingId, handleAuthError]);
 
   useEffect(() => {
-    // Check if user is authenticated before fetching data
-    if (!AuthService.isAuthenticated()) {
-      const returnUrl = window.location.pathname + window.location.search;
-      AuthService.setReturnUrl(returnUrl);
-      router.push(`/auth?returnUrl=${encodeURIComponent(returnUrl)}`);
-      return;
-    }
-
     fetchBookingDetails();
-  }, [fetchBookingDetails, router]);
-
-  // handleCancelBooking removed as it's not used (no cancel button in UI)
-
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case "CONFIRMED":
-        return "bg-green-100 text-green-800";
-      case "PENDING":
-        return "bg-yellow-100 text-yellow-800";
-      case "CANCELLED":
-        return "bg-red-100 text-red-800";
-      case "COMPLETED":
-        return "bg-blue-100 text-blue-800";
-      default:
-        return "bg-gray-100 text-gray-800";
-    }
-  };
+  }, [fetchBookingDetails]);
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString("en-IN", {
@@ -150,7 +81,8 @@ export default function BookingDetailsPage() {
     });
   };
 
-  const formatDateTime = (dateString: string) => {
+  const formatDateTime = (dateString?: string) => {
+    if (!dateString) return "Not available";
     return new Date(dateString).toLocaleString("en-IN", {
       day: "numeric",
       month: "short",
@@ -179,18 +111,6 @@ export default function BookingDetailsPage() {
     );
   }
 
-  // Double-check authentication status before rendering
-  if (!AuthService.isAuthenticated()) {
-    const returnUrl = window.location.pathname + window.location.search;
-    AuthService.setReturnUrl(returnUrl);
-    router.push(`/auth?returnUrl=${encodeURIComponent(returnUrl)}`);
-    return (
-      <div className='min-h-screen flex items-center justify-center'>
-        <div className='animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600'></div>
-      </div>
-    );
-  }
-
   if (!booking) {
     return (
       <div className='min-h-screen flex items-center justify-center'>
@@ -198,6 +118,9 @@ export default function BookingDetailsPage() {
           <h1 className='text-2xl font-bold text-gray-900 mb-4'>
             Booking Not Found
           </h1>
+          {loadError && (
+            <p className='text-sm text-red-600 mb-4'>{loadError}</p>
+          )}
           <Link href='/bookings' className='text-blue-600 hover:text-blue-700'>
             Back to My Bookings
           </Link>
@@ -206,6 +129,14 @@ export default function BookingDetailsPage() {
     );
   }
 
+  const statusMeta = getStatusMeta(booking.status);
+  const holdExpiry = CheckoutService.getHoldExpiry(booking);
+  // Paid at the gateway but not yet confirmed; paying again would double charge
+  const awaitingVerification = unverifiedPayments.some(
+    (payment) => payment.bookingId === booking.id
+  );
+  const receipt = buildReceipt(booking);
+
   return (
     <div className='min-h-screen bg-gray-50'>
       {/* Header */}
@@ -223,7 +154,7 @@ export default function BookingDetailsPage() {
               </Link>
               <button
                 onClick={() => {
-                  AuthService.clearAuthData();
+                  signOut();
                   window.location.href = "/";
                 }}
                 className='text-gray-700 hover:text-red-600 font-medium transition-colors'
@@ -248,7 +179,7 @@ export default function BookingDetailsPage() {
             </Link>
             <span className='mx-2'>/</span>
             <span className='text-gray-900'>
-              {booking?.bookingRef || "Loading..."}
+              {booking?.reference || "Loading..."}
             </span>
           </nav>
         </div>
@@ -260,37 +191,78 @@ export default function BookingDetailsPage() {
           <div className='flex justify-between items-start mb-4'>
             <div>
               <h1 className='text-3xl font-bold text-gray-900 mb-2'>
-                {booking.hotel?.name || "Hotel Name"}
+                {booking.hotel.name || "Hotel Name"}
               </h1>
               <p className='text-gray-800'>
-                📍 {booking.hotel?.address || "Address not available"}
+                📍 {booking.hotel.address || "Address not available"}
               </p>
               <div className='mt-2'>
                 <span className='text-sm text-gray-800'>
                   Booking Reference:{" "}
                 </span>
-                <span className='font-mono text-sm'>{booking.bookingRef}</span>
+                <span className='font-mono text-sm'>{booking.reference}</span>
               </div>
             </div>
 
             <div className='text-right'>
               <span
-                className={`inline-flex px-4 py-2 rounded-full text-sm font-medium ${getStatusColor(
-                  booking.status
-                )}`}
+                className={`inline-flex px-4 py-2 rounded-full text-sm font-medium ${statusMeta.badgeClass}`}
               >
-                {booking.status}
+                {statusMeta.label}
               </span>
+              <div className='mt-2 text-sm text-gray-600'>
+                {statusMeta.description}
+              </div>
+              {holdExpiry && !awaitingVerification && (
+                <div className='mt-2'>
+                  <HoldCountdown expiresAt={holdExpiry} />
+                </div>
+              )}
+              {awaitingVerification && (
+                <div className='mt-2 text-sm text-yellow-800'>
+                  Payment received, awaiting confirmation
+                </div>
+              )}
               {booking.payment && (
                 <div className='mt-2 text-sm text-gray-700'>
-                  Payment: {booking.payment.paymentStatus}
+                  Payment: {booking.payment.status}
+                </div>
+              )}
+              {booking.refund && (
+                <div className='mt-2 text-left'>
+                  <RefundStatus refund={booking.refund} />
                 </div>
               )}
             </div>
           </div>
 
           {/* Quick Actions */}
-          <div className='mb-4' />
+          <div className='flex justify-end space-x-3'>
+            {canPerform(booking, "CUSTOMER", "PAY") &&
+              !awaitingVerification && (
+                <CompletePaymentButton
+                  bookingId={booking.id}
+                  totalAmount={booking.totalAmount}
+                  onSettled={fetchBookingDetails}
+                />
+              )}
+            {canPerform(booking, "CUSTOMER", "MODIFY") && (
+              <Link
+                href={`/bookings/${booking.id}/modify`}
+                className='border border-gray-300 hover:bg-gray-50 text-gray-800 px-4 py-2 rounded-lg text-sm font-medium'
+              >
+                Modify Booking
+              </Link>
+            )}
+            {canPerform(booking, "CUSTOMER", "CANCEL") && (
+              <button
+                onClick={() => setCancelling(true)}
+                className='bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-lg text-sm font-medium'
+              >
+                Cancel Booking
+              </button>
+            )}
+          </div>
         </div>
 
         <div className='grid grid-cols-1 lg:grid-cols-3 gap-6'>
@@ -353,21 +325,21 @@ export default function BookingDetailsPage() {
                     Room Type
                   </h3>
                   <p className='text-gray-900'>
-                    {booking.room?.type || "Room type not available"}
+                    {booking.room.type || "Room type not available"}
                   </p>
 
                   <h3 className='font-semibold mb-2 mt-4 text-gray-800'>
                     Room Number
                   </h3>
                   <p className='text-gray-900'>
-                    {booking.room?.number || "Room number not available"}
+                    {booking.room.number || "Room number not available"}
                   </p>
 
                   <h3 className='font-semibold mb-2 mt-4 text-gray-800'>
                     Capacity
                   </h3>
                   <p className='text-gray-900'>
-                    {booking.room?.capacity || "Capacity not available"} guests
+                    {booking.room.capacity || "Capacity not available"} guests
                   </p>
                 </div>
 
@@ -376,14 +348,18 @@ export default function BookingDetailsPage() {
                     Room Amenities
                   </h3>
                   <div className='grid grid-cols-2 gap-2'>
-                    {booking.room?.amenities?.map((amenity) => (
-                      <div key={amenity} className='flex items-center'>
-                        <span className='text-green-500 mr-2'>✓</span>
-                        <span className='text-sm capitalize text-gray-800'>
-                          {amenity}
-                        </span>
-                      </div>
-                    )) || <p className='text-gray-800'>No amenities listed</p>}
+                    {booking.room.amenities.length > 0 ? (
+                      booking.room.amenities.map((amenity) => (
+                        <div key={amenity} className='flex items-center'>
+                          <span className='text-green-500 mr-2'>✓</span>
+                          <span className='text-sm capitalize text-gray-800'>
+                            {amenity}
+                          </span>
+                        </div>
+                      ))
+                    ) : (
+                      <p className='text-gray-800'>No amenities listed</p>
+                    )}
                   </div>
                 </div>
               </div>
@@ -396,7 +372,7 @@ export default function BookingDetailsPage() {
               </h2>
 
               <div className='space-y-4'>
-                {booking.guests?.map((guest, index) => (
+                {booking.guests.map((guest, index) => (
                   <div key={index}>
                     <h3 className='font-semibold mb-2 text-gray-900'>
                       {guest.isPrimaryGuest
@@ -455,44 +431,46 @@ export default function BookingDetailsPage() {
                 ))}
 
                 {/* Customer Details */}
-                <div>
-                  <h3 className='font-semibold mb-2 text-gray-900'>
-                    Customer Contact Information
-                  </h3>
-                  <div className='bg-gray-50 rounded-lg p-4'>
-                    <div className='grid grid-cols-1 md:grid-cols-3 gap-4'>
-                      <div>
-                        <span className='text-sm text-gray-800'>Name</span>
-                        <div className='font-medium text-gray-900'>
-                          {booking.customer.firstName}{" "}
-                          {booking.customer.lastName}
-                        </div>
-                      </div>
-                      <div>
-                        <span className='text-sm text-gray-800'>Phone</span>
-                        <div className='font-medium text-gray-900'>
-                          {booking.customer.phoneNumber}
+                {booking.customer && (
+                  <div>
+                    <h3 className='font-semibold mb-2 text-gray-900'>
+                      Customer Contact Information
+                    </h3>
+                    <div className='bg-gray-50 rounded-lg p-4'>
+                      <div className='grid grid-cols-1 md:grid-cols-3 gap-4'>
+                        <div>
+                          <span className='text-sm text-gray-800'>Name</span>
+                          <div className='font-medium text-gray-900'>
+                            {booking.customer.firstName}{" "}
+                            {booking.customer.lastName}
+                          </div>
                         </div>
-                      </div>
-                      <div>
-                        <span className='text-sm text-gray-800'>Email</span>
-                        <div className='font-medium text-gray-900'>
-                          {booking.customer.email}
+                        <div>
+                          <span className='text-sm text-gray-800'>Phone</span>
+                          <div className='font-medium text-gray-900'>
+                            {booking.customer.phoneNumber}
+                          </div>
                         </div>
-                      </div>
-                      {booking.customer.emergencyContact && (
                         <div>
-                          <span className='text-sm text-gray-800'>
-                            Emergency Contact
-                          </span>
+                          <span className='text-sm text-gray-800'>Email</span>
                           <div className='font-medium text-gray-900'>
-                            {booking.customer.emergencyContact}
+                            {booking.customer.email}
                           </div>
                         </div>
-                      )}
+                        {booking.customer.emergencyContact && (
+                          <div>
+                            <span className='text-sm text-gray-800'>
+                              Emergency Contact
+                            </span>
+                            <div className='font-medium text-gray-900'>
+                              {booking.customer.emergencyContact}
+                            </div>
+                          </div>
+                        )}
+                      </div>
                     </div>
                   </div>
-                </div>
+                )}
 
                 {/* Special Requests */}
                 {booking.specialRequests && (
@@ -519,32 +497,11 @@ export default function BookingDetailsPage() {
                 Payment Summary
               </h2>
 
-              <div className='space-y-3'>
-                <div className='flex justify-between'>
-                  <span className='text-gray-800'>
-                    Room charges ({calculateNights()} nights)
-                  </span>
-                  <span className='text-gray-900'>
-                    ₹{(booking.totalAmount * 0.88).toLocaleString()}
-                  </span>
-                </div>
-
-                <div className='flex justify-between'>
-                  <span className='text-gray-800'>Taxes & fees</span>
-                  <span className='text-gray-900'>
-                    ₹{(booking.totalAmount * 0.12).toLocaleString()}
-                  </span>
-                </div>
-
-                <hr className='my-3' />
-
-                <div className='flex justify-between text-lg font-bold'>
-                  <span className='text-gray-900'>Total Paid</span>
-                  <span className='text-gray-900'>
-                    ₹{booking.totalAmount.toLocaleString()}
-                  </span>
-                </div>
-              </div>
+              <ChargeBreakdownTable
+                charges={getChargeBreakdown(booking)}
+                nights={calculateNights()}
+                totalLabel={receipt ? "Total Paid" : "Total"}
+              />
 
               {booking.payment && (
                 <div className='mt-4 pt-4 border-t'>
@@ -552,8 +509,16 @@ export default function BookingDetailsPage() {
                     Payment Details
                   </h3>
                   <div className='text-sm space-y-1 text-gray-900'>
-                    <div>Method: {booking.payment.paymentMethod}</div>
-                    <div>Status: {booking.payment.paymentStatus}</div>
+                    <div>Method: {booking.payment.method}</div>
+                    <div>Status: {booking.payment.status}</div>
+                    {booking.payment.razorpayPaymentId && (
+                      <div>
+                        Payment ID:{" "}
+                        <span className='font-mono'>
+                          {booking.payment.razorpayPaymentId}
+                        </span>
+                      </div>
+                    )}
                     <div>
                       Processed: {formatDateTime(booking.payment.processedAt)}
                     </div>
@@ -562,6 +527,28 @@ export default function BookingDetailsPage() {
               )}
             </div>
 
+            {/* Invoice & Receipt */}
+            {receipt && (
+              <div className='bg-white rounded-lg shadow-md p-6'>
+                <h2 className='text-xl font-bold mb-4 text-gray-900'>
+                  Invoice &amp; Receipt
+                </h2>
+                <p className='text-sm text-gray-800 mb-4'>
+                  Receipt no.{" "}
+                  <span className='font-mono'>{receipt.number}</span>
+                </p>
+                <div className='flex flex-wrap gap-3'>
+                  <Link
+                    href={`/bookings/${booking.id}/receipt`}
+                    className='inline-block border border-gray-300 hover:bg-gray-50 text-gray-800 px-4 py-2 rounded-lg text-sm font-medium'
+                  >
+                    View Receipt
+                  </Link>
+                  <InvoiceDownload receipt={receipt} />
+                </div>
+              </div>
+            )}
+
             {/* Hotel Contact */}
             <div className='bg-white rounded-lg shadow-md p-6'>
               <h2 className='text-xl font-bold mb-4 text-gray-900'>
@@ -571,15 +558,15 @@ export default function BookingDetailsPage() {
               <div className='space-y-3'>
                 <div>
                   <h3 className='font-semibold text-gray-800'>
-                    {booking.vendor?.businessName || "Hotel Contact"}
+                    {booking.vendor.businessName || "Hotel Contact"}
                   </h3>
                 </div>
 
                 <div>
                   <span className='text-sm text-gray-800'>Phone</span>
                   <div className='text-gray-900'>
-                    {booking.vendor?.contactNumbers?.join(", ") ||
-                      booking.hotel?.contactNumbers?.join(", ") ||
+                    {booking.vendor.contactNumbers.join(", ") ||
+                      booking.hotel.contactNumbers.join(", ") ||
                       "Phone not available"}
                   </div>
                 </div>
@@ -587,7 +574,7 @@ export default function BookingDetailsPage() {
                 <div>
                   <span className='text-sm text-gray-800'>Address</span>
                   <div className='text-gray-900'>
-                    {booking.hotel?.address || "Address not available"}
+                    {booking.hotel.address || "Address not available"}
                   </div>
                 </div>
               </div>
@@ -627,6 +614,15 @@ export default function BookingDetailsPage() {
           </div>
         </div>
       </main>
+
+      {cancelling && (
+        <CancelBookingDialog
+          booking={booking}
+          onClose={() => setCancelling(false)}
+          onCancelled={fetchBookingDetails}
+          onAuthError={handleAuthError}
+        />
+      )}
     </div>
   );
 }
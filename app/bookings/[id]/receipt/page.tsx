@@ -0,0 +1,230 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import ApiClient from "../../../../lib/api-client";
+import { normalizeBooking } from "../../../../lib/booking-normalizer";
+import { buildReceipt, Receipt } from "../../../../lib/receipt";
+import { useAuth } from "../../../../components/auth/AuthProvider";
+import { RequireAuth } from "../../../../components/auth/RequireAuth";
+import ChargeBreakdownTable from "../../../../components/booking/ChargeBreakdownTable";
+import InvoiceDownload from "../../../../components/booking/InvoiceDownload";
+
+export default function BookingReceiptPage() {
+  return (
+    <RequireAuth>
+      <BookingReceipt />
+    </RequireAuth>
+  );
+}
+
+const formatDate = (dateString?: string) => {
+  if (!dateString) return "Not available";
+  return new Date(dateString).toLocaleDateString("en-IN", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+};
+
+const formatDateTime = (dateString?: string) => {
+  if (!dateString) return "Not available";
+  return new Date(dateString).toLocaleString("en-IN", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+};
+
+// Printable receipt for a paid booking
+function BookingReceipt() {
+  const params = useParams();
+  const { signOut } = useAuth();
+  const bookingId = params.id as string;
+
+  const [receipt, setReceipt] = useState<Receipt | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchReceipt = async () => {
+      const result = await ApiClient.getBooking(bookingId);
+
+      if (result.ok) {
+        const paid = buildReceipt(normalizeBooking(result.data, bookingId));
+        setReceipt(paid);
+        if (!paid) {
+          setLoadError("A receipt is available once the booking is paid.");
+        }
+      } else if (result.error.kind === "auth") {
+        // RequireAuth redirects to sign-in once the session is cleared
+        signOut();
+        return;
+      } else {
+        console.error("Error fetching booking for receipt:", result.error);
+        setLoadError(result.error.message);
+      }
+
+      setLoading(false);
+    };
+
+    fetchReceipt();
+  }, [bookingId, signOut]);
+
+  if (loading) {
+    return (
+      <div className='min-h-screen flex items-center justify-center'>
+        <div className='animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600'></div>
+      </div>
+    );
+  }
+
+  if (!receipt) {
+    return (
+      <div className='min-h-screen flex items-center justify-center'>
+        <div className='text-center'>
+          <h1 className='text-2xl font-bold text-gray-900 mb-4'>
+            Receipt Not Available
+          </h1>
+          {loadError && (
+            <p className='text-sm text-red-600 mb-4'>{loadError}</p>
+          )}
+          <Link
+            href={`/bookings/${bookingId}`}
+            className='text-blue-600 hover:text-blue-700'
+          >
+            Back to Booking
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className='min-h-screen bg-gray-50 print:bg-white'>
+      <div className='max-w-3xl mx-auto px-4 py-6'>
+        {/* Actions */}
+        <div className='flex items-center justify-between mb-6 print:hidden'>
+          <Link
+            href={`/bookings/${bookingId}`}
+            className='text-blue-600 hover:text-blue-700 text-sm font-medium'
+          >
+            ← Back to Booking
+          </Link>
+          <div className='flex gap-3'>
+            <button
+              onClick={() => window.print()}
+              className='border border-gray-300 hover:bg-gray-100 text-gray-800 px-4 py-2 rounded-lg text-sm font-medium'
+            >
+              Print
+            </button>
+            <InvoiceDownload receipt={receipt} />
+          </div>
+        </div>
+
+        <div className='bg-white rounded-lg shadow-md p-8 print:shadow-none print:p-0'>
+          {/* Receipt Header */}
+          <div className='flex justify-between items-start border-b pb-6 mb-6'>
+            <div>
+              <div className='text-2xl font-bold text-blue-600'>Sojourn</div>
+              <h1 className='text-xl font-bold text-gray-900 mt-2'>
+                Payment Receipt
+              </h1>
+            </div>
+            <div className='text-right text-sm text-gray-800'>
+              <div>
+                Receipt no.{" "}
+                <span className='font-mono text-gray-900'>
+                  {receipt.number}
+                </span>
+              </div>
+              <div>Issued {formatDate(receipt.issuedAt)}</div>
+            </div>
+          </div>
+
+          {/* Parties */}
+          <div className='grid grid-cols-1 sm:grid-cols-2 gap-6 mb-6 text-sm'>
+            <div>
+              <h2 className='font-semibold text-gray-800 mb-1'>Hotel</h2>
+              <div className='text-gray-900'>
+                {receipt.hotelName || "Hotel"}
+              </div>
+              {receipt.hotelAddress && (
+                <div className='text-gray-800'>{receipt.hotelAddress}</div>
+              )}
+            </div>
+            <div>
+              <h2 className='font-semibold text-gray-800 mb-1'>Billed to</h2>
+              <div className='text-gray-900'>
+                {receipt.customerName || "Guest"}
+              </div>
+              {receipt.customerEmail && (
+                <div className='text-gray-800'>{receipt.customerEmail}</div>
+              )}
+            </div>
+          </div>
+
+          {/* Stay */}
+          <div className='bg-gray-50 rounded-lg p-4 mb-6 text-sm print:bg-white print:border'>
+            <div className='grid grid-cols-2 gap-3'>
+              <div>
+                <span className='text-gray-800'>Booking reference</span>
+                <div className='font-mono text-gray-900'>
+                  {receipt.reference || receipt.bookingId}
+                </div>
+              </div>
+              <div>
+                <span className='text-gray-800'>Room</span>
+                <div className='text-gray-900'>
+                  {receipt.roomType || "Room"}
+                </div>
+              </div>
+              <div>
+                <span className='text-gray-800'>Stay</span>
+                <div className='text-gray-900'>
+                  {formatDate(receipt.checkInDate)} –{" "}
+                  {formatDate(receipt.checkOutDate)}
+                </div>
+              </div>
+              <div>
+                <span className='text-gray-800'>Guests</span>
+                <div className='text-gray-900'>{receipt.numberOfGuests}</div>
+              </div>
+            </div>
+          </div>
+
+          {/* Charges */}
+          <div className='mb-6'>
+            <h2 className='font-semibold text-gray-800 mb-3'>Charges</h2>
+            <ChargeBreakdownTable
+              charges={receipt.charges}
+              nights={receipt.nights}
+            />
+          </div>
+
+          {/* Payment */}
+          <div className='border-t pt-4 text-sm space-y-1 text-gray-900'>
+            <h2 className='font-semibold text-gray-800 mb-2'>Payment</h2>
+            <div>
+              Payment ID:{" "}
+              <span className='font-mono'>
+                {receipt.paymentId || "Not available"}
+              </span>
+            </div>
+            {receipt.orderId && (
+              <div>
+                Order ID: <span className='font-mono'>{receipt.orderId}</span>
+              </div>
+            )}
+            <div>Method: {receipt.paymentMethod || "Not available"}</div>
+            <div>Status: {receipt.paymentStatus || "Not available"}</div>
+            <div>Processed: {formatDateTime(receipt.processedAt)}</div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
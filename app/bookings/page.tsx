@@ -3,91 +3,38 @@
 import { useState, useEffect, useCallback } from "react";
 import Link from "next/link";
 
-import { AuthService } from "../../lib/auth";
-
-interface Booking {
-  id: string;
-  checkInDate: string;
-  checkOutDate: string;
-  numberOfGuests: number;
-  totalAmount: number;
-  status: "PENDING" | "CONFIRMED" | "CANCELLED" | "COMPLETED";
-  booking: {
-    id: string;
-    bookingType: string;
-    status: string;
-    payment?: {
-      paymentStatus: string;
-      paymentMethod: string;
-      razorpayPaymentId: string;
-      processedAt: string;
-    };
-  };
-  hotelProfile: {
-    hotelName: string;
-    vendor: {
-      businessName: string;
-      businessAddress: string;
-      contactNumbers: string[];
-    };
-  };
-  room: {
-    roomType: string;
-    roomNumber: string;
-  };
-  canCancel: boolean;
-  canModify: boolean;
-  createdAt: string;
-}
+import ApiClient, { BookingSummary } from "../../lib/api-client";
+import { Booking, normalizeBooking } from "../../lib/booking-normalizer";
+import { canPerform, getStatusMeta } from "../../lib/booking-state";
+import CheckoutService from "../../lib/checkout";
+import { useAuth } from "../../components/auth/AuthProvider";
+import { RequireAuth } from "../../components/auth/RequireAuth";
+import CancelBookingDialog from "../../components/booking/CancelBookingDialog";
+import CompletePaymentButton from "../../components/booking/CompletePaymentButton";
+import HoldCountdown from "../../components/booking/HoldCountdown";
+import RefundStatus from "../../components/booking/RefundStatus";
+import UnverifiedPaymentsBanner from "../../components/booking/UnverifiedPaymentsBanner";
+import { useUnverifiedPayments } from "../../lib/use-unverified-payments";
 
-interface BookingSummary {
-  totalBookings: number;
-  upcomingBookings: number;
-  completedBookings: number;
-  cancelledBookings: number;
-  totalSpent: number;
+export default function BookingsPage() {
+  return (
+    <RequireAuth>
+      <Bookings />
+    </RequireAuth>
+  );
 }
 
-// Types for older/legacy API shapes (avoid using `any`)
-type LegacyRoom = {
-  type?: string;
-  roomType?: string;
-  number?: string;
-  roomNumber?: string;
-};
-
-type LegacyBooking = {
-  bookingId?: string;
-  booking?: {
-    id?: string;
-    bookingId?: string;
-    payment?: {
-      paymentStatus?: string;
-      paymentMethod?: string;
-      razorpayPaymentId?: string;
-      processedAt?: string;
-      totalAmount?: number;
-    };
-  };
-  bookingRef?: string;
-  hotel?: { name?: string; address?: string };
-  vendor?: { businessName?: string };
-  room?: LegacyRoom;
-  payment?: { paymentStatus?: string; totalAmount?: number };
-  hotelProfile?: {
-    hotelName?: string;
-    vendor?: { businessName?: string; businessAddress?: string };
-  };
-};
-
-const BACKEND_URL =
-  process.env.NEXT_PUBLIC_BACKEND_URL || "https://sojournbackend.onrender.com";
-
-export default function BookingsPage() {
+function Bookings() {
+  const { signOut } = useAuth();
+  const unverifiedPayments = useUnverifiedPayments();
   const [bookings, setBookings] = useState<Booking[]>([]);
   const [summary, setSummary] = useState<BookingSummary | null>(null);
   const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
   const [selectedStatus, setSelectedStatus] = useState<string>("");
+  const [cancellingBooking, setCancellingBooking] = useState<Booking | null>(
+    null
+  );
   const [pagination, setPagination] = useState({
     page: 1,
     limit: 10,
@@ -97,79 +44,41 @@ export default function BookingsPage() {
 
   const fetchBookings = useCallback(async () => {
     setLoading(true);
-    try {
-      const queryParams = new URLSearchParams({
-        page: pagination.page.toString(),
-        limit: pagination.limit.toString(),
-        ...(selectedStatus && { status: selectedStatus }),
-      });
-
-      const response = await AuthService.authenticatedFetch(
-        `${BACKEND_URL}/api/hotels/customer/bookings?${queryParams}`
+    setLoadError(null);
+    const result = await ApiClient.listCustomerBookings({
+      page: pagination.page,
+      limit: pagination.limit,
+      status: selectedStatus,
+    });
+
+    if (result.ok) {
+      setBookings(
+        result.data.bookings.map((booking, index) => {
+          const normalized = normalizeBooking(booking);
+          // Rows without any id still need a list key
+          return normalized.id
+            ? normalized
+            : { ...normalized, id: String(index) };
+        })
       );
-      const data = await response.json();
-
-      if (data.success) {
-        setBookings(data.data.bookings);
-        setSummary(data.data.summary);
-        setPagination(data.data.pagination);
-      }
-    } catch (error) {
-      console.error("Error fetching bookings:", error);
-    } finally {
-      setLoading(false);
+      setSummary(result.data.summary);
+      setPagination(result.data.pagination);
+    } else {
+      console.error("Error fetching bookings:", result.error);
+      setLoadError(result.error.message);
     }
+
+    setLoading(false);
   }, [selectedStatus, pagination.page, pagination.limit]);
 
   useEffect(() => {
     fetchBookings();
   }, [fetchBookings]);
 
-  const handleCancelBooking = async (bookingId: string) => {
-    if (!confirm("Are you sure you want to cancel this booking?")) {
-      return;
-    }
-
-    try {
-      const response = await AuthService.authenticatedFetch(
-        `${BACKEND_URL}/api/hotels/bookings/${bookingId}/cancel`,
-        {
-          method: "PATCH",
-          body: JSON.stringify({
-            reason: "User requested cancellation",
-            requestRefund: true,
-          }),
-        }
-      );
-
-      const data = await response.json();
-
-      if (data.success) {
-        alert("Booking cancelled successfully");
-        fetchBookings(); // Refresh the list
-      } else {
-        alert(data.message || "Failed to cancel booking");
-      }
-    } catch (error) {
-      console.error("Error cancelling booking:", error);
-      alert("Failed to cancel booking. Please try again.");
-    }
-  };
-
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case "CONFIRMED":
-        return "bg-green-100 text-green-800";
-      case "PENDING":
-        return "bg-yellow-100 text-yellow-800";
-      case "CANCELLED":
-        return "bg-red-100 text-red-800";
-      case "COMPLETED":
-        return "bg-blue-100 text-blue-800";
-      default:
-        return "bg-gray-100 text-gray-800";
-    }
-  };
+  // Paid at the gateway but not yet confirmed; paying again would double charge
+  const awaitingVerification = new Set(
+    unverifiedPayments.map((payment) => payment.bookingId)
+  );
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString("en-IN", {
@@ -179,10 +88,6 @@ export default function BookingsPage() {
     });
   };
 
-  const isUpcoming = (checkInDate: string) => {
-    return new Date(checkInDate) > new Date();
-  };
-
   if (loading && bookings.length === 0) {
     return (
       <div className='min-h-screen flex items-center justify-center'>
@@ -206,7 +111,7 @@ export default function BookingsPage() {
               <span className='text-blue-600 font-medium'>My Bookings</span>
               <button
                 onClick={() => {
-                  AuthService.clearAuthData();
+                  signOut();
                   window.location.href = "/";
                 }}
                 className='text-gray-700 hover:text-red-600 font-medium transition-colors'
@@ -227,6 +132,14 @@ export default function BookingsPage() {
           </p>
         </div>
 
+        {loadError && (
+          <div className='bg-red-50 border border-red-200 text-red-700 rounded-lg p-4 mb-6'>
+            Could not load your bookings: {loadError}
+          </div>
+        )}
+
+        <UnverifiedPaymentsBanner onReconciled={fetchBookings} />
+
         {/* Summary Cards */}
         {summary && (
           <div className='grid grid-cols-1 md:grid-cols-4 gap-6 mb-8'>
@@ -323,56 +236,18 @@ export default function BookingsPage() {
           </div>
         ) : (
           <div className='space-y-6'>
-            {bookings.map((booking, idx) => {
-              // normalize fields for backward/forward compatibility
-              const legacy = booking as unknown as LegacyBooking;
-
-              // determine stable unique key and link id for this booking
-              const linkId =
-                booking.id ??
-                legacy.bookingId ??
-                (legacy.booking &&
-                  (legacy.booking.id ?? legacy.booking.bookingId)) ??
-                legacy.bookingRef ??
-                idx;
-              const listKey = linkId;
-
-              const hotelName =
-                legacy.hotel?.name ||
-                booking.hotelProfile?.hotelName ||
-                legacy.vendor?.businessName ||
-                "Unknown Hotel";
-
-              const hotelAddress =
-                legacy.hotel?.address ||
-                booking.hotelProfile?.vendor?.businessAddress ||
-                "";
-
-              const payment =
-                booking.booking?.payment || legacy.payment || null;
-
-              const roomType =
-                booking.room?.roomType ||
-                legacy.room?.type ||
-                legacy.room?.roomType ||
-                "";
-
-              const roomNumber =
-                booking.room?.roomNumber ||
-                legacy.room?.number ||
-                legacy.room?.roomNumber ||
-                "";
-
-              const totalAmount =
-                booking.totalAmount ??
-                (payment && "totalAmount" in payment
-                  ? payment.totalAmount
-                  : 0) ??
-                0;
+            {bookings.map((booking) => {
+              const hotelName = booking.hotel.name || "Unknown Hotel";
+              const hotelAddress = booking.hotel.address || "";
+              const payment = booking.payment;
+              const roomType = booking.room.type || "";
+              const roomNumber = booking.room.number || "";
+              const statusMeta = getStatusMeta(booking.status);
+              const holdExpiry = CheckoutService.getHoldExpiry(booking);
 
               return (
                 <div
-                  key={listKey}
+                  key={booking.id}
                   className='bg-white rounded-lg shadow-md overflow-hidden'
                 >
                   <div className='p-6'>
@@ -388,15 +263,25 @@ export default function BookingsPage() {
 
                       <div className='text-right'>
                         <span
-                          className={`inline-flex px-3 py-1 rounded-full text-sm font-medium ${getStatusColor(
-                            booking.status
-                          )}`}
+                          className={`inline-flex px-3 py-1 rounded-full text-sm font-medium ${statusMeta.badgeClass}`}
+                          title={statusMeta.description}
                         >
-                          {booking.status}
+                          {statusMeta.label}
                         </span>
-                        {payment?.paymentStatus && (
+                        {payment?.status && (
                           <div className='mt-2 text-sm text-gray-600'>
-                            Payment: {payment.paymentStatus}
+                            Payment: {payment.status}
+                          </div>
+                        )}
+                        {holdExpiry &&
+                          !awaitingVerification.has(booking.id) && (
+                            <div className='mt-2'>
+                              <HoldCountdown expiresAt={holdExpiry} />
+                            </div>
+                          )}
+                        {booking.refund && (
+                          <div className='mt-2 text-left'>
+                            <RefundStatus refund={booking.refund} />
                           </div>
                         )}
                       </div>
@@ -440,36 +325,42 @@ export default function BookingsPage() {
                           Total Amount
                         </div>
                         <div className='text-lg font-bold text-black'>
-                          ₹
-                          {typeof totalAmount === "number"
-                            ? totalAmount.toLocaleString()
-                            : totalAmount}
+                          ₹{booking.totalAmount.toLocaleString()}
                         </div>
                       </div>
                     </div>
 
                     <div className='flex justify-between items-center pt-4 border-t'>
                       <div className='text-sm text-gray-600'>
-                        Booked on {formatDate(booking.createdAt)}
+                        {booking.createdAt &&
+                          `Booked on ${formatDate(booking.createdAt)}`}
                       </div>
 
                       <div className='flex space-x-3'>
                         <Link
-                          href={`/bookings/${linkId}`}
+                          href={`/bookings/${booking.id}`}
                           className='bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg text-sm font-medium'
                         >
                           View Details
                         </Link>
 
-                        {booking.canCancel &&
-                          isUpcoming(booking.checkInDate) && (
-                            <button
-                              onClick={() => handleCancelBooking(booking.id)}
-                              className='bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-lg text-sm font-medium'
-                            >
-                              Cancel Booking
-                            </button>
+                        {canPerform(booking, "CUSTOMER", "PAY") &&
+                          !awaitingVerification.has(booking.id) && (
+                            <CompletePaymentButton
+                              bookingId={booking.id}
+                              totalAmount={booking.totalAmount}
+                              onSettled={fetchBookings}
+                            />
                           )}
+
+                        {canPerform(booking, "CUSTOMER", "CANCEL") && (
+                          <button
+                            onClick={() => setCancellingBooking(booking)}
+                            className='bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-lg text-sm font-medium'
+                          >
+                            Cancel Booking
+                          </button>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -503,6 +394,20 @@ export default function BookingsPage() {
           </div>
         )}
       </main>
+
+      {cancellingBooking && (
+        <CancelBookingDialog
+          booking={cancellingBooking}
+          onClose={() => setCancellingBooking(null)}
+          onCancelled={fetchBookings}
+          onAuthError={(error) => {
+            if (error.kind !== "auth") return false;
+            // RequireAuth redirects to sign-in once the session is cleared
+            signOut();
+            return true;
+          }}
+        />
+      )}
     </div>
   );
 }
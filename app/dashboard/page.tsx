@@ -1,47 +1,43 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect } from "react";
 import { useRouter } from "next/navigation";
-import { AuthService, User } from "../../lib/auth";
+import { useAuth } from "../../components/auth/AuthProvider";
+import { RequireAuth } from "../../components/auth/RequireAuth";
+
+const loadingScreen = (
+  <div className='min-h-screen flex items-center justify-center'>
+    <div className='text-center'>
+      <div className='animate-spin rounded-full h-32 w-32 border-b-2 border-indigo-600'></div>
+      <p className='mt-4 text-gray-600'>Loading...</p>
+    </div>
+  </div>
+);
 
 export default function Dashboard() {
+  return (
+    <RequireAuth fallback={loadingScreen}>
+      <DashboardContent />
+    </RequireAuth>
+  );
+}
+
+function DashboardContent() {
   const router = useRouter();
-  const [user, setUser] = useState<User | null>(null);
-  const [loading, setLoading] = useState(true);
+  const { user, signOut } = useAuth();
 
+  // A token without stored user data cannot render the profile
   useEffect(() => {
-    // Check if user is authenticated
-    if (!AuthService.isAuthenticated()) {
+    if (!user) {
       router.push("/auth");
-      return;
     }
-
-    const userData = AuthService.getUser();
-    if (!userData) {
-      router.push("/auth");
-      return;
-    }
-
-    setUser(userData);
-    setLoading(false);
-  }, [router]);
+  }, [user, router]);
 
   const handleLogout = () => {
-    AuthService.clearAuthData();
+    signOut();
     router.push("/auth");
   };
 
-  if (loading) {
-    return (
-      <div className='min-h-screen flex items-center justify-center'>
-        <div className='text-center'>
-          <div className='animate-spin rounded-full h-32 w-32 border-b-2 border-indigo-600'></div>
-          <p className='mt-4 text-gray-600'>Loading...</p>
-        </div>
-      </div>
-    );
-  }
-
   if (!user) {
     return null; // Will redirect in useEffect
   }
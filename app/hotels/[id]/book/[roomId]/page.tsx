@@ -1,65 +1,46 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { useParams, useSearchParams, useRouter } from "next/navigation";
 import Link from "next/link";
-import Script from "next/script";
 import { AuthService } from "../../../../../lib/auth";
-import PaymentUtils, {
-  PaymentBackendData,
-  RazorpayResponse,
-} from "../../../../../lib/payment-utils";
-
-interface BookingData {
-  hotelId: string;
-  roomId: string;
-  checkInDate: string;
-  checkOutDate: string;
-  numberOfGuests: number;
-  userDetails: {
-    firstName: string;
-    lastName: string;
-    email?: string;
-    dateOfBirth?: string;
-    address?: string;
-    emergencyContact?: string;
-    idProofType?: string;
-    idProofNumber?: string;
-  };
-  guestDetails: Array<{
-    firstName: string;
-    lastName: string;
-    age?: number;
-    idProofType?: string;
-    idProofNumber?: string;
-    isPrimaryGuest: boolean;
-    specialRequests?: string;
-  }>;
-  specialRequests?: string;
-}
-
-interface Hotel {
-  id: string;
-  hotelName: string;
-  category: string;
-  vendor: {
-    businessName: string;
-    businessAddress: string;
-    contactNumbers: string[];
-  };
-}
-
-interface Room {
-  id: string;
-  roomType: string;
-  roomNumber: string;
-  capacity: number;
-  basePrice: number;
-  amenities: string[];
-}
-
-const BACKEND_URL =
-  process.env.NEXT_PUBLIC_BACKEND_URL || "https://sojournbackend.onrender.com";
+import PaymentUtils from "../../../../../lib/payment-utils";
+import { getPaymentProvider } from "../../../../../lib/payment-provider";
+import CheckoutService, { CheckoutFailure } from "../../../../../lib/checkout";
+import { isCheckoutTimeout } from "../../../../../lib/payment-failures";
+import BookingAttempts from "../../../../../lib/booking-attempt";
+import ApiClient, {
+  ApiResult,
+  BookingStatus,
+  CreateBookingRequest,
+  Hotel,
+  HotelRoom,
+  PriceQuote,
+  PromoCode,
+  VerifiedPayment,
+} from "../../../../../lib/api-client";
+import {
+  BookingEvent,
+  canTransition,
+  getStatusMeta,
+  isBookingStatus,
+  transition,
+} from "../../../../../lib/booking-state";
+import { countNights, priceStay } from "../../../../../lib/pricing";
+import {
+  describeQuoteMismatch,
+  isQuoteCurrent,
+  QuoteMismatch,
+} from "../../../../../lib/price-quote";
+import {
+  applyPromo,
+  getPromoIneligibility,
+  validatePromoCode,
+} from "../../../../../lib/promo-codes";
+import { useAuth } from "../../../../../components/auth/AuthProvider";
+import { RequireAuth } from "../../../../../components/auth/RequireAuth";
+import HoldCountdown from "../../../../../components/booking/HoldCountdown";
+import StayPriceBreakdown from "../../../../../components/booking/StayPriceBreakdown";
 
 const ID_PROOF_TYPES = [
   { value: "AADHAR", label: "Aadhar Card" },
@@ -136,7 +117,50 @@ const ID_VALIDATION_SPECS: Record<string, IdValidationSpec> = {
   },
 };
 
+// Booking created by this form, tracked through the payment states
+interface ActiveBooking {
+  id: string;
+  status: BookingStatus;
+}
+
+// Pure so it can run in a state updater: a payment callback that arrives after
+// the booking has moved on leaves it as it is instead of throwing
+function applyBookingEvent(
+  booking: ActiveBooking | null,
+  event: BookingEvent
+): ActiveBooking | null {
+  return booking && canTransition(booking.status, event)
+    ? { ...booking, status: transition(booking.status, event) }
+    : booking;
+}
+
+// The unpaid booking from an earlier load of this form, if it can still be paid
+async function restoreAttemptBooking(
+  scope: string
+): Promise<ActiveBooking | null> {
+  const bookingId = BookingAttempts.get(scope)?.bookingId;
+  if (!bookingId) return null;
+
+  const result = await ApiClient.getBooking(bookingId);
+  if (!result.ok) return null;
+
+  const status = result.data.status.toUpperCase();
+  if (isBookingStatus(status) && canTransition(status, "START_PAYMENT")) {
+    return { id: bookingId, status };
+  }
+  BookingAttempts.clear(scope);
+  return null;
+}
+
 export default function BookingPage() {
+  return (
+    <RequireAuth>
+      <BookingForm />
+    </RequireAuth>
+  );
+}
+
+function BookingForm() {
   const params = useParams();
   const searchParams = useSearchParams();
   const router = useRouter();
@@ -147,23 +171,52 @@ export default function BookingPage() {
   const checkIn = searchParams.get("checkIn") || "";
   const checkOut = searchParams.get("checkOut") || "";
   const guests = parseInt(searchParams.get("guests") || "2");
+  const attemptScope = `${hotelId}:${roomId}`;
 
   const [hotel, setHotel] = useState<Hotel | null>(null);
-  const [room, setRoom] = useState<Room | null>(null);
+  const [room, setRoom] = useState<HotelRoom | null>(null);
   const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
   const [bookingLoading, setBookingLoading] = useState(false);
-  const [razorpayLoaded, setRazorpayLoaded] = useState(false);
+  const [paymentReady, setPaymentReady] = useState(false);
+  const [activeBooking, setActiveBooking] = useState<ActiveBooking | null>(
+    null
+  );
+  // Lookup of the booking stored by an earlier load of this form
+  const restoringRef = useRef<Promise<ActiveBooking | null> | null>(null);
+  const [paymentDismissed, setPaymentDismissed] = useState(false);
+  const [paymentFailure, setPaymentFailure] = useState<CheckoutFailure | null>(
+    null
+  );
+  // The session keeps the token fresh while the guest fills the form and pays
+  const { session, signOut } = useAuth();
+  const sessionExpired = session.status === "expired";
   const [localCheckIn, setLocalCheckIn] = useState(checkIn);
   const [localCheckOut, setLocalCheckOut] = useState(checkOut);
-  const [priceDetails, setPriceDetails] = useState({
-    pricePerNight: 0,
-    totalPrice: 0,
-    nights: 0,
-    taxes: 0,
-    finalAmount: 0,
-  });
-
-  const [formData, setFormData] = useState<BookingData>({
+  // The backend's price for the stay; payment only goes ahead at this price
+  const [quote, setQuote] = useState<PriceQuote | null>(null);
+  const [quoteLoading, setQuoteLoading] = useState(false);
+  const [quoteError, setQuoteError] = useState<string | null>(null);
+  const [quoteMismatch, setQuoteMismatch] = useState<QuoteMismatch | null>(
+    null
+  );
+  // Only the latest quote request may update the form
+  const quoteRequest = useRef(0);
+  // A promo code is left out of the price while the stay does not meet its terms
+  const [promo, setPromo] = useState<PromoCode | null>(null);
+  const [promoInput, setPromoInput] = useState("");
+  const [promoChecking, setPromoChecking] = useState(false);
+  const [promoError, setPromoError] = useState<string | null>(null);
+  const promoProblem = promo
+    ? getPromoIneligibility(
+        promo,
+        localCheckIn || checkIn,
+        localCheckOut || checkOut
+      )
+    : null;
+  const promoCode = promo && !promoProblem ? promo.code : undefined;
+
+  const [formData, setFormData] = useState<CreateBookingRequest>({
     hotelId,
     roomId,
     checkInDate: localCheckIn || checkIn,
@@ -184,27 +237,23 @@ export default function BookingPage() {
   });
 
   const fetchBookingDetails = useCallback(async () => {
-    try {
-      // Fetch hotel details
-      const hotelResponse = await fetch(`${BACKEND_URL}/api/hotels/${hotelId}`);
-      const hotelData = await hotelResponse.json();
+    // Fetch hotel details
+    const result = await ApiClient.getHotel(hotelId);
 
-      if (hotelData.success) {
-        setHotel(hotelData.data);
+    if (result.ok) {
+      setHotel(result.data);
 
-        // Find the specific room
-        const selectedRoom = hotelData.data.rooms.find(
-          (r: Room) => r.id === roomId
-        );
-        if (selectedRoom) {
-          setRoom(selectedRoom);
-        }
+      // Find the specific room
+      const selectedRoom = result.data.rooms?.find((r) => r.id === roomId);
+      if (selectedRoom) {
+        setRoom(selectedRoom);
       }
-    } catch (error) {
-      console.error("Error fetching booking details:", error);
-    } finally {
-      setLoading(false);
+    } else {
+      console.error("Error fetching booking details:", result.error);
+      setLoadError(result.error.message);
     }
+
+    setLoading(false);
   }, [hotelId, roomId]);
 
   const setupAdditionalGuests = useCallback(() => {
@@ -248,34 +297,58 @@ export default function BookingPage() {
     }));
   }, [guests]);
 
-  const calculatePricing = useCallback(() => {
-    const currentCheckIn = localCheckIn || checkIn;
-    const currentCheckOut = localCheckOut || checkOut;
+  const fetchQuote = useCallback(async (): Promise<PriceQuote | null> => {
+    const request = ++quoteRequest.current;
+    const stayCheckIn = localCheckIn || checkIn;
+    const stayCheckOut = localCheckOut || checkOut;
+    setQuoteMismatch(null);
+    setQuoteError(null);
+    if (!stayCheckIn || !stayCheckOut) {
+      setQuote(null);
+      return null;
+    }
 
-    if (!currentCheckIn || !currentCheckOut || !room) return;
+    setQuoteLoading(true);
+    const result = await ApiClient.getPriceQuote(hotelId, {
+      roomId,
+      checkIn: stayCheckIn,
+      checkOut: stayCheckOut,
+      guests,
+      promoCode,
+    });
+    if (request !== quoteRequest.current) return null;
+    setQuoteLoading(false);
 
-    const start = new Date(currentCheckIn);
-    const end = new Date(currentCheckOut);
-    const nights = Math.ceil(
-      (end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24)
+    if (result.ok) {
+      setQuote(result.data);
+      return result.data;
+    }
+    console.error("Error fetching price quote:", result.error);
+    setQuote(null);
+    setQuoteError(
+      result.error.kind === "network"
+        ? "We could not get the price for your stay."
+        : result.error.message || "We could not get the price for your stay."
     );
-    const pricePerNight = room.basePrice || 2500; // Fallback price
-    const totalPrice = pricePerNight * nights;
-    const taxes = Math.round(totalPrice * 0.12); // 12% taxes
-    const finalAmount = totalPrice + taxes;
-
-    setPriceDetails({
-      pricePerNight,
-      totalPrice,
-      nights,
-      taxes,
-      finalAmount,
-    });
-  }, [localCheckIn, localCheckOut, checkIn, checkOut, room]);
+    return null;
+  }, [
+    hotelId,
+    roomId,
+    guests,
+    promoCode,
+    localCheckIn,
+    localCheckOut,
+    checkIn,
+    checkOut,
+  ]);
+
+  useEffect(() => {
+    fetchQuote();
+  }, [fetchQuote]);
 
   useEffect(() => {
-    calculatePricing();
-  }, [localCheckIn, localCheckOut, room, calculatePricing]);
+    setFormData((prev) => ({ ...prev, promoCode }));
+  }, [promoCode]);
 
   useEffect(() => {
     setFormData((prev) => ({
@@ -288,9 +361,6 @@ export default function BookingPage() {
   // Moved auth/check & initial fetch effect. Includes stable callbacks to satisfy
   // react-hooks/exhaustive-deps.
   useEffect(() => {
-    // Check if Razorpay is already loaded
-    setRazorpayLoaded(PaymentUtils.isRazorpayLoaded());
-
     // Debug: Log search params
     console.log("Debug - Search Params:", {
       checkIn,
@@ -300,18 +370,6 @@ export default function BookingPage() {
       roomId,
     });
 
-    // Check authentication
-    if (!AuthService.isAuthenticated()) {
-      const returnUrl = `/hotels/${hotelId}/book/${roomId}?checkIn=${checkIn}&checkOut=${checkOut}&guests=${guests}`;
-
-      // Store return URL in localStorage as backup
-      AuthService.setReturnUrl(returnUrl);
-
-      // Redirect to auth with return URL
-      router.push(`/auth?returnUrl=${encodeURIComponent(returnUrl)}`);
-      return;
-    }
-
     fetchBookingDetails();
     setupAdditionalGuests();
   }, [
@@ -320,11 +378,42 @@ export default function BookingPage() {
     checkIn,
     checkOut,
     guests,
-    router,
     fetchBookingDetails,
     setupAdditionalGuests,
   ]);
 
+  // Load the default gateway up front; the payment order may still choose
+  // another provider, which CheckoutService loads on demand
+  useEffect(() => {
+    let ignore = false;
+    const loadPaymentProvider = async () => {
+      const loaded = await getPaymentProvider().load();
+      if (!loaded) {
+        console.error("Failed to load the payment gateway");
+      }
+      if (!ignore) setPaymentReady(true);
+    };
+
+    loadPaymentProvider();
+    return () => {
+      ignore = true;
+    };
+  }, []);
+
+  // After a reload, pick up the unpaid booking from this form session
+  useEffect(() => {
+    let ignore = false;
+    const restoring = restoreAttemptBooking(attemptScope);
+    restoringRef.current = restoring;
+
+    restoring.then((booking) => {
+      if (!ignore && booking) setActiveBooking(booking);
+    });
+    return () => {
+      ignore = true;
+    };
+  }, [attemptScope]);
+
   const handleInputChange = (field: string, value: string) => {
     if (field.startsWith("userDetails.")) {
       const userField = field.split(".")[1];
@@ -498,185 +587,230 @@ export default function BookingPage() {
     return true;
   };
 
-  const createBooking = async () => {
-    if (!validateForm()) return;
-
-    setBookingLoading(true);
-    try {
-      const response = await AuthService.authenticatedFetch(
-        `${BACKEND_URL}/api/hotels/bookings`,
-        {
-          method: "POST",
-          body: JSON.stringify(formData),
-        }
-      );
-
-      const data = await response.json();
+  // Each attempt carries an idempotency key, so retries and reloads of the
+  // same submission reuse its booking instead of creating another DRAFT.
+  // If the details changed, the earlier unpaid booking is released first.
+  const prepareBooking = async (): Promise<{
+    id: string;
+    idempotencyKey: string;
+  } | null> => {
+    // A submit right after a reload waits for the stored booking, which would
+    // otherwise be replaced without being released
+    const restored = await restoringRef.current;
+    restoringRef.current = null;
+    const previous = activeBooking ?? restored;
+
+    const payable =
+      !!previous && canTransition(previous.status, "START_PAYMENT");
+    let attempt = BookingAttempts.begin(attemptScope, formData);
+
+    if (attempt.bookingId) {
+      if (payable && previous?.id === attempt.bookingId) {
+        return { id: attempt.bookingId, idempotencyKey: attempt.key };
+      }
+      // The attempt's booking was paid, cancelled or has lapsed
+      BookingAttempts.clear(attemptScope);
+      attempt = BookingAttempts.begin(attemptScope, formData);
+    }
 
-      if (data.success) {
-        console.log("Booking created successfully:", data.data.id);
-        console.log("Booking status:", data.data.status); // Should be 'DRAFT'
+    if (previous && payable) {
+      const released = await ApiClient.cancelBooking(previous.id, {
+        reason: "Booking details changed before payment",
+        requestRefund: false,
+      });
+      if (!released.ok) {
+        console.error("Error releasing previous booking:", released.error);
+      }
+      CheckoutService.forgetOrder(previous.id);
+      setActiveBooking(null);
+    }
 
-        // Create payment order (changes status from DRAFT to PENDING)
-        const paymentResponse = await AuthService.authenticatedFetch(
-          `${BACKEND_URL}/api/hotels/bookings/${data.data.id}/payment/create-order`,
-          { method: "POST" }
-        );
-        const paymentData = await paymentResponse.json();
+    const booking = await ApiClient.createBooking(formData, attempt.key);
 
-        if (paymentData.success) {
-          console.log(
-            "Payment order created, booking status changed to PENDING"
-          );
-          console.log("Room is now reserved for this customer");
-          initiatePayment(paymentData.data, data.data.id);
-        } else {
-          console.error("Payment creation failed:", paymentData);
-
-          // Handle specific error cases
-          if (paymentData.message?.includes("Room is not available")) {
-            alert(
-              "Sorry, this room is no longer available for your selected dates. Please choose different dates or another room."
-            );
-            // Redirect back to hotel details or search
-            router.push(
-              `/hotels/${hotelId}?checkIn=${checkIn}&checkOut=${checkOut}&guests=${guests}`
-            );
-          } else if (paymentData.message?.includes("Booking not found")) {
-            alert("Booking not found. Please try creating a new booking.");
-            router.push(`/hotels/${hotelId}`);
-          } else {
-            alert(
-              paymentData.message ||
-                "Failed to create payment order. Please try again."
-            );
-          }
-        }
-      } else {
-        alert(data.message || "Failed to create booking");
-      }
-    } catch (error) {
-      console.error("Error creating booking:", error);
+    if (booking.ok) {
+      const createdStatus = booking.data.status.toUpperCase();
+      BookingAttempts.recordBooking(attemptScope, booking.data.id);
+      setActiveBooking({
+        id: booking.data.id,
+        status: isBookingStatus(createdStatus) ? createdStatus : "DRAFT",
+      });
+      return { id: booking.data.id, idempotencyKey: attempt.key };
+    } else if (booking.error.kind === "network") {
+      console.error("Error creating booking:", booking.error);
       alert("Failed to create booking. Please try again.");
-    } finally {
-      setBookingLoading(false);
+    } else {
+      alert(booking.error.message || "Failed to create booking");
     }
+    return null;
   };
 
-  const initiatePayment = async (paymentData: unknown, bookingId: string) => {
-    // Narrow and validate the runtime shape before using it
-    const isPaymentBackendData = (p: unknown): p is PaymentBackendData => {
-      if (!p || typeof p !== "object") return false;
-      const obj = p as Record<string, unknown>;
-      return (
-        typeof obj.key === "string" &&
-        typeof obj.amount === "number" &&
-        typeof obj.currency === "string" &&
-        (typeof obj.order_id === "string" || typeof obj.orderId === "string")
-      );
-    };
+  const createBooking = async () => {
+    if (!validateForm()) return;
 
-    if (!isPaymentBackendData(paymentData)) {
-      console.error("Invalid payment data:", paymentData);
-      alert("Payment initialization failed due to invalid payment data.");
+    setBookingLoading(true);
+    setPaymentDismissed(false);
+    setPaymentFailure(null);
+
+    // Re-quote once the quoted price has lapsed
+    const currentQuote =
+      quote && isQuoteCurrent(quote) ? quote : await fetchQuote();
+    if (!currentQuote) {
+      alert("We could not confirm the price for your stay. Please try again.");
+      setBookingLoading(false);
       return;
     }
 
-    try {
-      // Handler must match the RazorpayResponse signature and should not return a Promise
-      const handler = (response: RazorpayResponse) => {
-        // Call async verifier without awaiting here (Razorpay expects a sync handler)
-        void verifyPayment(response, bookingId);
-      };
+    const prepared = await prepareBooking();
 
-      const options = PaymentUtils.formatPaymentOptions(
-        paymentData,
+    if (prepared) {
+      const bookingId = prepared.id;
+      // Creating the payment order reserves the room (DRAFT -> PENDING)
+      const checkout = await CheckoutService.start(
         bookingId,
-        handler,
-        () => {
-          console.log("Payment modal dismissed");
-        }
+        {
+          onPaymentResult: (result) => handlePaymentResult(result, bookingId),
+          onDismiss: () => setPaymentDismissed(true),
+          onFailure: handlePaymentFailure,
+        },
+        prepared.idempotencyKey,
+        currentQuote
       );
 
-      const success = await PaymentUtils.initializePayment(options);
-
-      if (!success) {
+      if (checkout.ok) {
+        setActiveBooking((prev) =>
+          prev?.id === bookingId
+            ? applyBookingEvent(prev, "START_PAYMENT")
+            : prev
+        );
+      } else if (checkout.reason === "gateway") {
         alert("Failed to initialize payment. Please try again.");
+      } else if (checkout.reason === "mismatch") {
+        console.error("Payment order does not match the quote:", {
+          quote: currentQuote,
+          mismatch: checkout.mismatch,
+        });
+        setQuoteMismatch(checkout.mismatch);
+      } else if (checkout.error.kind === "network") {
+        console.error("Error creating payment order:", checkout.error);
+        alert("Failed to create payment order. Please try again.");
+      } else {
+        console.error("Payment creation failed:", checkout.error);
+        const message = checkout.error.message;
+
+        // Handle specific error cases
+        if (message.includes("Room is not available")) {
+          alert(
+            "Sorry, this room is no longer available for your selected dates. Please choose different dates or another room."
+          );
+          // Redirect back to hotel details or search
+          router.push(
+            `/hotels/${hotelId}?checkIn=${checkIn}&checkOut=${checkOut}&guests=${guests}`
+          );
+        } else if (message.includes("Booking not found")) {
+          BookingAttempts.clear(attemptScope);
+          setActiveBooking(null);
+          alert("Booking not found. Please try creating a new booking.");
+          router.push(`/hotels/${hotelId}`);
+        } else {
+          alert(message || "Failed to create payment order. Please try again.");
+        }
       }
-    } catch (error) {
-      console.error("Error initiating payment:", error);
-      alert("Payment initialization failed. Please try again.");
     }
+
+    setBookingLoading(false);
   };
 
-  const verifyPayment = async (
-    paymentResponse: {
-      razorpay_payment_id: string;
-      razorpay_order_id: string;
-      razorpay_signature: string;
-    },
+  const handlePaymentResult = (
+    result: ApiResult<VerifiedPayment | undefined>,
     bookingId: string
   ) => {
-    try {
-      const response = await AuthService.authenticatedFetch(
-        `${BACKEND_URL}/api/hotels/bookings/${bookingId}/payment/verify`,
-        {
-          method: "POST",
-          body: JSON.stringify({
-            razorpay_payment_id: paymentResponse.razorpay_payment_id,
-            razorpay_order_id: paymentResponse.razorpay_order_id,
-            razorpay_signature: paymentResponse.razorpay_signature,
-          }),
-        }
+    if (result.ok) {
+      PaymentUtils.logApiResponse(result.data, "Payment Verification");
+      BookingAttempts.clear(attemptScope);
+      setActiveBooking((prev) => applyBookingEvent(prev, "PAYMENT_SUCCEEDED"));
+
+      alert("Payment successful! Your booking has been confirmed.");
+
+      // The details page shows the receipt and links the invoice once issued
+      try {
+        router.push(`/bookings/${bookingId}`);
+      } catch (routerError) {
+        console.error(
+          "Router error, redirecting to bookings list:",
+          routerError
+        );
+        router.push("/bookings");
+      }
+    } else {
+      // Razorpay accepted the payment; the reconciler keeps verifying it
+      console.error("Payment verification failed:", result.error);
+      BookingAttempts.clear(attemptScope);
+      alert(
+        "We received your payment but could not confirm your booking yet. We will keep checking, and your booking will update automatically. Please do not pay again."
       );
+      router.push("/bookings");
+    }
+  };
 
-      const data = await response.json();
-      PaymentUtils.logApiResponse(data, "Payment Verification");
-
-      if (PaymentUtils.validateApiResponse(data)) {
-        console.log(
-          "Payment verified successfully, booking status changed to CONFIRMED"
-        );
+  // The booking stays PENDING; the customer retries in the open checkout, or
+  // with a new order once its retries are used up
+  const handlePaymentFailure = (failure: CheckoutFailure) => {
+    console.error("Payment failed:", failure);
+    setPaymentFailure(failure);
+    setActiveBooking((prev) => applyBookingEvent(prev, "PAYMENT_FAILED"));
+  };
 
-        alert("Payment successful! Your booking has been confirmed.");
+  const handleApplyPromo = async () => {
+    setPromoChecking(true);
+    setPromoError(null);
+    const result = await validatePromoCode(promoInput, {
+      hotelId,
+      roomId,
+      checkIn: localCheckIn || checkIn,
+      checkOut: localCheckOut || checkOut,
+      guests,
+    });
+    setPromoChecking(false);
 
-        // Safely check for invoice
-        const invoiceUrl = PaymentUtils.safeGet(
-          data,
-          "data.invoice.invoiceUrl"
-        );
-        if (invoiceUrl) {
-          console.log("Invoice available:", invoiceUrl);
-        } else {
-          console.log("No invoice data in response");
-        }
+    if (result.ok) {
+      setPromo(result.promo);
+      setPromoInput("");
+    } else {
+      setPromoError(result.message);
+    }
+  };
 
-        // Redirect to booking confirmation page or dashboard
-        try {
-          router.push(`/bookings/${bookingId}`);
-        } catch (routerError) {
-          console.error(
-            "Router error, redirecting to bookings list:",
-            routerError
-          );
-          router.push("/bookings");
-        }
-      } else {
-        console.error("Payment verification failed:", data);
-        alert(
-          `Payment verification failed: ${
-            data.message || "Unknown error"
-          }. If money was deducted, it will be refunded within 5-7 business days. Please contact support.`
-        );
-      }
-    } catch (error) {
-      console.error("Error verifying payment:", error);
-      alert(
-        "Payment verification failed due to network error. Please contact support."
-      );
+  const retryHint = (failure: CheckoutFailure) => {
+    const { retriesLeft } = failure;
+    if (retriesLeft === 0 && isCheckoutTimeout(failure)) {
+      return "Click Complete Payment to start a new payment.";
     }
+    if (retriesLeft === 0) {
+      return "No more retries are allowed in this checkout. Click Complete Payment to start a new payment.";
+    }
+    if (retriesLeft === null) return "You can retry in the payment window.";
+    return `You can retry in the payment window (${retriesLeft} ${
+      retriesLeft === 1 ? "retry" : "retries"
+    } left).`;
   };
 
+  const stayPrice = priceStay(
+    room || {},
+    localCheckIn || checkIn,
+    localCheckOut || checkOut
+  );
+  const estimatedPrice =
+    stayPrice && promo && !promoProblem
+      ? applyPromo(stayPrice, promo)
+      : stayPrice;
+
+  // Nothing is left to pay once the booking is confirmed or closed
+  const bookingPayable =
+    !activeBooking || canTransition(activeBooking.status, "START_PAYMENT");
+  const holdExpiry = activeBooking
+    ? CheckoutService.getHoldExpiry(activeBooking)
+    : null;
+
   if (loading) {
     return (
       <div className='min-h-screen flex items-center justify-center'>
@@ -695,6 +829,9 @@ export default function BookingPage() {
           <h1 className='text-xl font-medium text-gray-900 mb-4'>
             Booking Details Not Found
           </h1>
+          {loadError && (
+            <p className='text-sm text-red-600 mb-4'>{loadError}</p>
+          )}
           <Link
             href='/hotels'
             className='text-gray-600 hover:text-gray-900 underline'
@@ -726,7 +863,7 @@ export default function BookingPage() {
               </Link>
               <button
                 onClick={() => {
-                  AuthService.clearAuthData();
+                  signOut();
                   window.location.href = "/";
                 }}
                 className='text-gray-600 hover:text-red-600 font-medium transition-colors'
@@ -738,19 +875,6 @@ export default function BookingPage() {
         </div>
       </header>
 
-      {/* Load Razorpay Script */}
-      <Script
-        src='https://checkout.razorpay.com/v1/checkout.js'
-        onLoad={() => {
-          console.log("Razorpay script loaded successfully");
-          setRazorpayLoaded(PaymentUtils.isRazorpayLoaded());
-        }}
-        onError={() => {
-          console.error("Failed to load Razorpay script");
-          setRazorpayLoaded(false);
-        }}
-      />
-
       <main className='max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6'>
         <div className='grid grid-cols-1 lg:grid-cols-3 gap-8'>
           {/* Left Column - Booking Form */}
@@ -767,7 +891,7 @@ export default function BookingPage() {
                   {hotel.hotelName}
                 </h3>
                 <p className='text-gray-600 text-sm'>
-                  {hotel.vendor.businessAddress}
+                  {hotel.vendor?.businessAddress}
                 </p>
                 <div className='mt-3 space-y-1 text-sm text-gray-700'>
                   <p>
@@ -794,7 +918,10 @@ export default function BookingPage() {
                   </p>
                   <p>
                     <span className='font-medium text-gray-900'>Nights:</span>{" "}
-                    {priceDetails.nights}
+                    {countNights(
+                      localCheckIn || checkIn,
+                      localCheckOut || checkOut
+                    )}
                   </p>
                 </div>
               </div>
@@ -1337,40 +1464,176 @@ export default function BookingPage() {
                 Price Summary
               </h3>
 
-              <div className='space-y-3 text-gray-700'>
-                <div className='flex justify-between'>
-                  <span>
-                    ₹{priceDetails.pricePerNight.toLocaleString()} ×{" "}
-                    {priceDetails.nights} nights
-                  </span>
-                  <span>₹{priceDetails.totalPrice.toLocaleString()}</span>
-                </div>
+              <div className='mb-4'>
+                {promo ? (
+                  <div className='bg-green-50 border border-green-200 p-3 text-sm text-green-800'>
+                    <div className='flex justify-between items-start'>
+                      <span className='font-medium'>{promo.code} applied</span>
+                      <button
+                        onClick={() => setPromo(null)}
+                        className='underline text-xs'
+                      >
+                        Remove
+                      </button>
+                    </div>
+                    {promo.description && (
+                      <p className='mt-1'>{promo.description}</p>
+                    )}
+                    {promoProblem && (
+                      <p className='mt-1 text-amber-700'>
+                        Not applied: {promoProblem}
+                      </p>
+                    )}
+                  </div>
+                ) : (
+                  <>
+                    <label className='block text-sm font-medium text-gray-700 mb-1'>
+                      Promo code
+                    </label>
+                    <div className='flex gap-2'>
+                      <input
+                        type='text'
+                        value={promoInput}
+                        onChange={(e) => setPromoInput(e.target.value)}
+                        className='flex-1 min-w-0 px-3 py-2 border border-gray-300 focus:ring-1 focus:ring-gray-900 focus:border-gray-900 text-gray-900 bg-white uppercase'
+                        placeholder='Enter code'
+                      />
+                      <button
+                        onClick={handleApplyPromo}
+                        disabled={promoChecking || !promoInput.trim()}
+                        className='px-4 py-2 border border-gray-900 text-gray-900 font-medium hover:bg-gray-50 disabled:opacity-50'
+                      >
+                        {promoChecking ? "Checking..." : "Apply"}
+                      </button>
+                    </div>
+                    {promoError && (
+                      <p className='mt-1 text-sm text-red-600'>{promoError}</p>
+                    )}
+                  </>
+                )}
+              </div>
+
+              <div className='text-gray-700'>
+                {quote && <StayPriceBreakdown price={quote} />}
+                {!quote && estimatedPrice && (
+                  <>
+                    <StayPriceBreakdown
+                      price={estimatedPrice}
+                      totalLabel='Estimated Total'
+                    />
+                    <p className='mt-2 text-xs text-gray-500'>
+                      {quoteLoading
+                        ? "Confirming the price for your stay..."
+                        : "Estimate only. The final price is confirmed before payment."}
+                    </p>
+                  </>
+                )}
+                {!quote && !estimatedPrice && (
+                  <p className='text-sm text-gray-500'>
+                    Select your dates to see the price.
+                  </p>
+                )}
+              </div>
 
-                <div className='flex justify-between'>
-                  <span>Taxes & Fees</span>
-                  <span>₹{priceDetails.taxes.toLocaleString()}</span>
+              {quoteError && (
+                <div className='mt-4 bg-red-50 border border-red-200 p-3 text-sm text-red-800'>
+                  {quoteError}{" "}
+                  <button
+                    onClick={() => fetchQuote()}
+                    className='underline font-medium'
+                  >
+                    Try again
+                  </button>
                 </div>
+              )}
 
-                <hr className='my-3' />
+              {quoteMismatch && (
+                <div className='mt-4 bg-red-50 border border-red-200 p-3 text-sm text-red-800'>
+                  <p className='font-medium'>Price mismatch</p>
+                  <p className='mt-1'>{describeQuoteMismatch(quoteMismatch)}</p>
+                  <button
+                    onClick={() => fetchQuote()}
+                    className='mt-2 underline font-medium'
+                  >
+                    Refresh price
+                  </button>
+                </div>
+              )}
 
-                <div className='flex justify-between text-lg font-medium text-gray-900'>
-                  <span>Total Amount</span>
-                  <span>₹{priceDetails.finalAmount.toLocaleString()}</span>
+              {sessionExpired && (
+                <div className='mt-6 bg-red-50 border border-red-200 p-4 text-sm text-red-700'>
+                  Your session has expired.{" "}
+                  <Link
+                    href={AuthService.getSignInUrl(
+                      `/hotels/${hotelId}/book/${roomId}?checkIn=${checkIn}&checkOut=${checkOut}&guests=${guests}`
+                    )}
+                    className='underline font-medium'
+                  >
+                    Sign in again
+                  </Link>{" "}
+                  to complete your booking.
                 </div>
-              </div>
+              )}
 
               <button
                 onClick={createBooking}
-                disabled={bookingLoading || !razorpayLoaded}
+                disabled={
+                  bookingLoading ||
+                  !paymentReady ||
+                  sessionExpired ||
+                  !bookingPayable ||
+                  !!quoteMismatch
+                }
                 className='w-full mt-6 bg-gray-900 hover:bg-gray-800 text-white py-3 px-4 font-medium disabled:opacity-50'
               >
-                {!razorpayLoaded
+                {!paymentReady
                   ? "Loading Payment System..."
                   : bookingLoading
                   ? "Creating Booking & Processing Payment..."
+                  : activeBooking
+                  ? "Complete Payment"
                   : "Create Booking & Pay Now"}
               </button>
 
+              {activeBooking && (
+                <div className='mt-3 text-sm text-gray-700'>
+                  Booking status:{" "}
+                  <span
+                    className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${
+                      getStatusMeta(activeBooking.status).badgeClass
+                    }`}
+                  >
+                    {getStatusMeta(activeBooking.status).label}
+                  </span>
+                  {holdExpiry && (
+                    <div className='mt-1'>
+                      <HoldCountdown expiresAt={holdExpiry} />
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {paymentFailure && activeBooking && bookingPayable && (
+                <div className='mt-3 bg-red-50 border border-red-200 p-3 text-sm text-red-800'>
+                  <p className='font-medium'>{paymentFailure.message}</p>
+                  <p className='mt-1'>{retryHint(paymentFailure)}</p>
+                </div>
+              )}
+
+              {paymentDismissed && activeBooking && bookingPayable && (
+                <div className='mt-3 bg-yellow-50 border border-yellow-200 p-3 text-sm text-yellow-800'>
+                  Payment was not completed. Your booking is saved; pay now or
+                  later from{" "}
+                  <Link
+                    href={`/bookings/${activeBooking.id}`}
+                    className='underline font-medium'
+                  >
+                    My Bookings
+                  </Link>
+                  .
+                </div>
+              )}
+
               <div className='mt-4 text-xs text-gray-500'>
                 <p>
                   By clicking &quot;Create Booking &amp; Pay Now&quot;, you
@@ -1380,7 +1643,7 @@ export default function BookingPage() {
                 <p className='mt-1'>
                   🔒 Room reserved only during payment process
                 </p>
-                {!razorpayLoaded && (
+                {!paymentReady && (
                   <p className='mt-1 text-orange-600'>
                     ⏳ Loading payment gateway...
                   </p>
@@ -5,75 +5,15 @@ import { useParams, useRouter, useSearchParams } from "next/navigation";
 import Image from "next/image";
 import Link from "next/link";
 import { AuthService } from "../../../lib/auth";
-
-interface Hotel {
-  id: string;
-  hotelName: string;
-  category: string;
-  totalRooms?: number;
-  amenities?: string[];
-  cancellationPolicy?: string;
-  checkInTime?: string;
-  checkOutTime?: string;
-  vendor?: {
-    businessName?: string;
-    ownerName?: string;
-    businessAddress?: string;
-    contactNumbers?: string[];
-    email?: string;
-    images?: Array<{
-      id: string;
-      imageUrl: string;
-      thumbnailUrl: string;
-      description: string;
-      isPrimary: boolean;
-      imageType: string;
-    }>;
-  };
-  rooms?: Array<{
-    id: string;
-    roomType: string;
-    roomNumber: string;
-    capacity: number;
-    basePrice: number;
-    summerPrice: number;
-    winterPrice: number;
-    amenities: string[];
-    isAvailable: boolean;
-    images: Array<{
-      id: string;
-      imageUrl: string;
-      description: string;
-      isPrimary: boolean;
-    }>;
-  }>;
-  location?: {
-    googleMapsLink: string;
-    coordinates: {
-      latitude: number;
-      longitude: number;
-    };
-  };
-  avgRating?: number;
-  totalReviews?: number;
-}
-
-interface RoomAvailability {
-  id: string;
-  roomType: string;
-  roomNumber: string;
-  capacity: number;
-  pricePerNight?: number;
-  totalPrice?: number;
-  amenities?: string[];
-  images?: Array<{
-    imageUrl: string;
-    isPrimary: boolean;
-  }>;
-}
-
-const BACKEND_URL =
-  process.env.NEXT_PUBLIC_BACKEND_URL || "https://sojournbackend.onrender.com";
+import ApiClient, { Hotel, RoomAvailability } from "../../../lib/api-client";
+import { describeTier, getPolicyTiers } from "../../../lib/cancellation-policy";
+import {
+  countNights,
+  formatRupees,
+  getNightlyRate,
+  priceStay,
+} from "../../../lib/pricing";
+import { useAuth } from "../../../components/auth/AuthProvider";
 
 export default function HotelDetailsPage() {
   const params = useParams();
@@ -84,38 +24,19 @@ export default function HotelDetailsPage() {
   const [hotel, setHotel] = useState<Hotel | null>(null);
   const [availableRooms, setAvailableRooms] = useState<RoomAvailability[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
   const [availabilityLoading, setAvailabilityLoading] = useState(false);
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [authLoading, setAuthLoading] = useState(true);
+  const { status: authStatus, signOut } = useAuth();
+  const isAuthenticated = authStatus === "authenticated";
+  const authLoading = authStatus === "loading";
   const [selectedImageIndex, setSelectedImageIndex] = useState(0);
   const [checkIn, setCheckIn] = useState("");
   const [checkOut, setCheckOut] = useState("");
   const [guests, setGuests] = useState(2);
   // Removed unused showBookingModal and selectedRoom states
 
-  // Check authentication status
-  useEffect(() => {
-    const checkAuth = () => {
-      const authenticated = AuthService.isAuthenticated();
-      setIsAuthenticated(authenticated);
-      setAuthLoading(false);
-    };
-
-    checkAuth();
-
-    // Listen for storage events to update auth status across tabs
-    const handleStorageChange = () => {
-      checkAuth();
-    };
-
-    window.addEventListener("storage", handleStorageChange);
-    return () => window.removeEventListener("storage", handleStorageChange);
-  }, []);
-
   const handleSignOut = () => {
-    AuthService.clearAuthData();
-    setIsAuthenticated(false);
-    window.location.reload();
+    signOut();
   };
 
   // Read URL parameters and set form values
@@ -130,42 +51,35 @@ export default function HotelDetailsPage() {
   }, [searchParams]);
 
   const fetchHotelDetails = useCallback(async () => {
-    try {
-      const response = await fetch(`${BACKEND_URL}/api/hotels/${hotelId}`);
-      const data = await response.json();
+    const result = await ApiClient.getHotel(hotelId);
 
-      console.log("Hotel Details API Response:", data);
-
-      if (data.success) {
-        setHotel(data.data);
-      } else {
-        console.error("Hotel Details API Error:", data.message);
-      }
-    } catch (error) {
-      console.error("Error fetching hotel details:", error);
-    } finally {
-      setLoading(false);
+    if (result.ok) {
+      setHotel(result.data);
+    } else {
+      console.error("Hotel Details API Error:", result.error);
+      setLoadError(result.error.message);
     }
+
+    setLoading(false);
   }, [hotelId]);
 
   const checkAvailability = useCallback(async () => {
     if (!checkIn || !checkOut || !guests) return;
 
     setAvailabilityLoading(true);
-    try {
-      const response = await fetch(
-        `${BACKEND_URL}/api/hotels/${hotelId}/availability?checkIn=${checkIn}&checkOut=${checkOut}&guests=${guests}`
-      );
-      const data = await response.json();
+    const result = await ApiClient.checkAvailability(hotelId, {
+      checkIn,
+      checkOut,
+      guests,
+    });
 
-      if (data.success) {
-        setAvailableRooms(data.data.availableRooms);
-      }
-    } catch (error) {
-      console.error("Error checking availability:", error);
-    } finally {
-      setAvailabilityLoading(false);
+    if (result.ok) {
+      setAvailableRooms(result.data.availableRooms);
+    } else {
+      console.error("Error checking availability:", result.error);
     }
+
+    setAvailabilityLoading(false);
   }, [checkIn, checkOut, guests, hotelId]);
 
   useEffect(() => {
@@ -180,14 +94,14 @@ export default function HotelDetailsPage() {
 
   const handleBookRoom = (room: RoomAvailability) => {
     // Check if user is authenticated
-    if (!AuthService.isAuthenticated()) {
+    if (!isAuthenticated) {
       const returnUrl = `/hotels/${hotelId}/book/${room.id}?checkIn=${checkIn}&checkOut=${checkOut}&guests=${guests}`;
 
       // Store return URL in localStorage as backup
       AuthService.setReturnUrl(returnUrl);
 
       // Redirect to auth with return URL as query param (primary method)
-      router.push(`/auth?returnUrl=${encodeURIComponent(returnUrl)}`);
+      router.push(AuthService.getSignInUrl(returnUrl));
       return;
     }
 
@@ -199,43 +113,7 @@ export default function HotelDetailsPage() {
 
   // Removed unused getRatingStars function
 
-  const calculateNights = () => {
-    if (!checkIn || !checkOut) return 0;
-    const start = new Date(checkIn);
-    const end = new Date(checkOut);
-    const diffTime = Math.abs(end.getTime() - start.getTime());
-    return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-  };
-
-  const calculateSeasonalPrice = (
-    room: { summerPrice?: number; winterPrice?: number; basePrice?: number },
-    checkInDate?: string
-  ): number | undefined => {
-    if (
-      room.basePrice == null &&
-      room.summerPrice == null &&
-      room.winterPrice == null
-    ) {
-      return undefined;
-    }
-
-    const pick = (isSummer: boolean) => {
-      return isSummer
-        ? room.summerPrice ?? room.basePrice ?? undefined
-        : room.winterPrice ?? room.basePrice ?? undefined;
-    };
-
-    if (!checkInDate) {
-      const currentMonth = new Date().getMonth() + 1;
-      const isSummer = currentMonth >= 4 && currentMonth <= 9;
-      return pick(isSummer);
-    }
-
-    const checkIn = new Date(checkInDate);
-    const month = checkIn.getMonth() + 1; // getMonth() returns 0-11
-    const isSummer = month >= 4 && month <= 9;
-    return pick(isSummer);
-  };
+  const calculateNights = () => countNights(checkIn, checkOut);
 
   if (loading) {
     return (
@@ -273,6 +151,9 @@ export default function HotelDetailsPage() {
               The hotel you&apos;re looking for doesn&apos;t exist or has been
               removed.
             </p>
+            {loadError && (
+              <p className='text-sm text-red-600 mb-6'>{loadError}</p>
+            )}
             <Link
               href='/hotels'
               className='bg-gray-900 hover:bg-gray-800 text-white px-6 py-3 rounded-lg font-medium transition-colors inline-block'
@@ -285,6 +166,8 @@ export default function HotelDetailsPage() {
     );
   }
 
+  const hasPolicyTiers = (hotel.cancellationTiers?.length ?? 0) > 0;
+
   return (
     <div className='min-h-screen bg-gradient-to-br from-gray-50 to-gray-100'>
       {/* Header */}
@@ -884,10 +767,19 @@ export default function HotelDetailsPage() {
                       </svg>
                       Cancellation Policy
                     </h3>
-                    <p className='text-gray-700 leading-relaxed'>
-                      {hotel.cancellationPolicy ||
-                        "Cancellation policy information is not available for this property. Please contact the hotel directly for details."}
-                    </p>
+                    {hasPolicyTiers && (
+                      <ul className='text-gray-700 mb-2 space-y-1'>
+                        {getPolicyTiers(hotel.cancellationTiers).map((tier) => (
+                          <li key={tier.minDaysBefore}>{describeTier(tier)}</li>
+                        ))}
+                      </ul>
+                    )}
+                    {(hotel.cancellationPolicy || !hasPolicyTiers) && (
+                      <p className='text-gray-700 leading-relaxed'>
+                        {hotel.cancellationPolicy ||
+                          "Cancellation policy information is not available for this property. Please contact the hotel directly for details."}
+                      </p>
+                    )}
                   </div>
                 </div>
               </div>
@@ -1109,15 +1001,11 @@ export default function HotelDetailsPage() {
                     )}
                     {hotel.rooms && hotel.rooms.length > 0 ? (
                       hotel.rooms.map((room) => {
-                        const seasonalPrice = calculateSeasonalPrice(
+                        const seasonalPrice = getNightlyRate(
                           room,
-                          checkIn
+                          checkIn || undefined
                         );
-                        const nights = calculateNights();
-                        const totalPrice =
-                          nights > 0 && seasonalPrice
-                            ? seasonalPrice * nights
-                            : undefined;
+                        const stayPrice = priceStay(room, checkIn, checkOut);
 
                         return (
                           <div
@@ -1224,14 +1112,22 @@ export default function HotelDetailsPage() {
                                         {room.winterPrice?.toLocaleString() ??
                                           "-"}
                                       </div>
-                                      {typeof totalPrice === "number" && (
+                                      {stayPrice && (
                                         <div className='bg-gray-100 rounded-lg p-3 mt-2'>
                                           <div className='text-sm text-gray-600 mb-1'>
-                                            {nights} night
-                                            {nights !== 1 ? "s" : ""} total
+                                            {stayPrice.nights.length} night
+                                            {stayPrice.nights.length !== 1
+                                              ? "s"
+                                              : ""}{" "}
+                                            total
                                           </div>
                                           <div className='text-lg font-bold text-gray-900'>
-                                            ₹{totalPrice.toLocaleString()}
+                                            {formatRupees(stayPrice.total)}
+                                          </div>
+                                          <div className='text-xs text-gray-500'>
+                                            {formatRupees(stayPrice.subtotal)} +{" "}
+                                            {formatRupees(stayPrice.totalTax)}{" "}
+                                            GST
                                           </div>
                                         </div>
                                       )}
@@ -1271,11 +1167,11 @@ export default function HotelDetailsPage() {
                                           roomType: room.roomType,
                                           roomNumber: room.roomNumber,
                                           capacity: room.capacity,
-                                          pricePerNight: seasonalPrice,
+                                          pricePerNight:
+                                            stayPrice?.averageNightlyRate ??
+                                            seasonalPrice,
                                           totalPrice:
-                                            typeof totalPrice === "number"
-                                              ? totalPrice
-                                              : seasonalPrice,
+                                            stayPrice?.total ?? seasonalPrice,
                                           amenities: room.amenities,
                                         } as RoomAvailability;
                                         handleBookRoom(roomForBooking);
@@ -3,7 +3,9 @@
 import { useState, useEffect, useRef } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
-import { AuthService } from "../../../lib/auth";
+import ApiClient from "../../../lib/api-client";
+import { useAuth } from "../../../components/auth/AuthProvider";
+import { RequireAuth } from "../../../components/auth/RequireAuth";
 
 interface Message {
   id: string;
@@ -12,51 +14,33 @@ interface Message {
   timestamp: Date;
 }
 
-interface ChatResponse {
-  success: boolean;
-  data: string;
-  message?: string;
-}
-
-const BACKEND_URL =
-  process.env.NEXT_PUBLIC_BACKEND_URL || "https://sojournbackend.onrender.com";
+const loadingScreen = (
+  <div className='min-h-screen flex items-center justify-center bg-gradient-to-br from-green-50 to-emerald-100'>
+    <div className='text-center'>
+      <div className='animate-spin rounded-full h-16 w-16 border-b-4 border-green-600 mx-auto mb-4'></div>
+      <p className='text-green-700 text-lg'>Loading...</p>
+    </div>
+  </div>
+);
 
 export default function AIAssistantPage() {
+  return (
+    <RequireAuth fallback={loadingScreen}>
+      <AIAssistant />
+    </RequireAuth>
+  );
+}
+
+function AIAssistant() {
   const router = useRouter();
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [authLoading, setAuthLoading] = useState(true);
+  const { signOut } = useAuth();
   const [messages, setMessages] = useState<Message[]>([]);
   const [currentQuestion, setCurrentQuestion] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
-  // Check authentication on mount
-  useEffect(() => {
-    const checkAuth = () => {
-      const authenticated = AuthService.isAuthenticated();
-      setIsAuthenticated(authenticated);
-      setAuthLoading(false);
-
-      if (!authenticated) {
-        // Redirect to auth page
-        router.push("/auth");
-      }
-    };
-
-    checkAuth();
-
-    // Listen for storage events to update auth status
-    const handleStorageChange = () => {
-      checkAuth();
-    };
-
-    window.addEventListener("storage", handleStorageChange);
-    return () => window.removeEventListener("storage", handleStorageChange);
-  }, [router]);
-
   const handleSignOut = () => {
-    AuthService.clearAuthData();
-    setIsAuthenticated(false);
+    signOut();
     router.push("/");
   };
 
@@ -81,13 +65,6 @@ export default function AIAssistantPage() {
   const sendMessage = async () => {
     if (!currentQuestion.trim() || isLoading) return;
 
-    // Double-check authentication before making API call
-    if (!AuthService.isAuthenticated()) {
-      console.error("User not authenticated");
-      router.push("/auth");
-      return;
-    }
-
     const questionToSend = currentQuestion.trim();
     setCurrentQuestion("");
     setIsLoading(true);
@@ -102,49 +79,18 @@ export default function AIAssistantPage() {
 
     setMessages((prev) => [...prev, newMessage]);
 
-    try {
-      const questionWithContext = buildQuestionWithContext(questionToSend);
+    const questionWithContext = buildQuestionWithContext(questionToSend);
+    const result = await ApiClient.askAssistant(questionWithContext);
 
-      const response = await AuthService.authenticatedFetch(
-        `${BACKEND_URL}/api/hotels/ai`,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            question: questionWithContext,
-          }),
-        }
+    if (result.ok) {
+      // Update the message with the AI response
+      setMessages((prev) =>
+        prev.map((msg) =>
+          msg.id === newMessage.id ? { ...msg, answer: result.data } : msg
+        )
       );
-
-      const data: ChatResponse = await response.json();
-
-      if (!response.ok) {
-        console.error("API Error:", {
-          status: response.status,
-          statusText: response.statusText,
-          data: data,
-        });
-        throw new Error(
-          `API Error: ${response.status} - ${
-            data.message || response.statusText
-          }`
-        );
-      }
-
-      if (data.success) {
-        // Update the message with the AI response
-        setMessages((prev) =>
-          prev.map((msg) =>
-            msg.id === newMessage.id ? { ...msg, answer: data.data } : msg
-          )
-        );
-      } else {
-        throw new Error("Failed to get response from AI");
-      }
-    } catch (error) {
-      console.error("Error sending message:", error);
+    } else {
+      console.error("Error sending message:", result.error);
       // Update message with error
       setMessages((prev) =>
         prev.map((msg) =>
@@ -157,9 +103,9 @@ export default function AIAssistantPage() {
             : msg
         )
       );
-    } finally {
-      setIsLoading(false);
     }
+
+    setIsLoading(false);
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -198,21 +144,6 @@ export default function AIAssistantPage() {
     return withBreaks;
   };
 
-  if (authLoading) {
-    return (
-      <div className='min-h-screen flex items-center justify-center bg-gradient-to-br from-green-50 to-emerald-100'>
-        <div className='text-center'>
-          <div className='animate-spin rounded-full h-16 w-16 border-b-4 border-green-600 mx-auto mb-4'></div>
-          <p className='text-green-700 text-lg'>Loading...</p>
-        </div>
-      </div>
-    );
-  }
-
-  if (!isAuthenticated) {
-    return null; // Will redirect to auth
-  }
-
   return (
     <div className='min-h-screen bg-gradient-to-br from-green-50 to-emerald-100'>
       {/* Header */}
@@ -3,39 +3,9 @@
 import { useState, useEffect, useCallback } from "react";
 import Link from "next/link";
 import Image from "next/image";
-import { AuthService } from "../../lib/auth";
-
-interface Hotel {
-  id: string;
-  hotelName: string;
-  category: string;
-  totalRooms?: number;
-  amenities: string[];
-  checkInTime?: string;
-  checkOutTime?: string;
-  vendor: {
-    businessName: string;
-    businessAddress: string;
-    contactNumbers: string[];
-    images: Array<{
-      id: string;
-      imageUrl: string;
-      thumbnailUrl: string;
-      description: string;
-      isPrimary: boolean;
-    }>;
-  };
-  rooms: Array<{
-    id: string;
-    roomType: string;
-    capacity: number;
-    basePrice: number;
-    amenities: string[];
-  }>;
-  avgRating: number;
-  totalReviews: number;
-  startingPrice?: number;
-}
+import ApiClient, { HotelSearchResult } from "../../lib/api-client";
+import { formatRupees, getNightlyRate, priceStay } from "../../lib/pricing";
+import { useAuth } from "../../components/auth/AuthProvider";
 
 interface SearchFilters {
   location: string;
@@ -48,14 +18,33 @@ interface SearchFilters {
   amenities: string[];
 }
 
-const BACKEND_URL =
-  process.env.NEXT_PUBLIC_BACKEND_URL || "https://sojournbackend.onrender.com";
+// Cheapest room's rate for the searched check-in, and what that room costs for
+// the whole stay when dates are set. Falls back to the listed starting price.
+function getStartingPrice(hotel: HotelSearchResult, filters: SearchFilters) {
+  const checkIn = filters.checkIn || undefined;
+  const cheapest = (hotel.rooms || [])
+    .flatMap((room) => {
+      const rate = getNightlyRate(room, checkIn);
+      return rate === undefined ? [] : [{ room, rate }];
+    })
+    .sort((a, b) => a.rate - b.rate)[0];
+
+  if (!cheapest) {
+    return { displayPrice: hotel.startingPrice, stayPrice: null };
+  }
+  return {
+    displayPrice: cheapest.rate,
+    stayPrice: priceStay(cheapest.room, filters.checkIn, filters.checkOut),
+  };
+}
 
 export default function HotelsPage() {
-  const [hotels, setHotels] = useState<Hotel[]>([]);
+  const [hotels, setHotels] = useState<HotelSearchResult[]>([]);
   const [loading, setLoading] = useState(false);
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [authLoading, setAuthLoading] = useState(true);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const { status: authStatus, signOut } = useAuth();
+  const isAuthenticated = authStatus === "authenticated";
+  const authLoading = authStatus === "loading";
   // Initialize filters without reading next/navigation's useSearchParams during render.
   // We'll hydrate initial values from window.location.search on client mount to avoid requiring a Suspense boundary.
   const [filters, setFilters] = useState<SearchFilters>({
@@ -88,80 +77,37 @@ export default function HotelsPage() {
     "tv",
   ];
 
-  // Check authentication status
-  useEffect(() => {
-    const checkAuth = () => {
-      const authenticated = AuthService.isAuthenticated();
-      setIsAuthenticated(authenticated);
-      setAuthLoading(false);
-    };
-
-    checkAuth();
-
-    // Listen for storage events to update auth status across tabs
-    const handleStorageChange = () => {
-      checkAuth();
-    };
-
-    window.addEventListener("storage", handleStorageChange);
-    return () => window.removeEventListener("storage", handleStorageChange);
-  }, []);
-
   const handleSignOut = () => {
-    AuthService.clearAuthData();
-    setIsAuthenticated(false);
-    window.location.reload();
+    signOut();
   };
 
   const searchHotels = useCallback(
     async (page = 1) => {
       setLoading(true);
-      try {
-        const queryParams = new URLSearchParams({
-          page: page.toString(),
-          limit: pagination.limit.toString(),
-          ...(filters.location && { location: filters.location }),
-          ...(filters.checkIn && { checkIn: filters.checkIn }),
-          ...(filters.checkOut && { checkOut: filters.checkOut }),
-          ...(filters.guests && { guests: filters.guests.toString() }),
-          ...(filters.category && { category: filters.category }),
-          ...(filters.minPrice && { minPrice: filters.minPrice.toString() }),
-          ...(filters.maxPrice && { maxPrice: filters.maxPrice.toString() }),
-          ...(filters.amenities.length > 0 && {
-            amenities: filters.amenities.join(","),
-          }),
-        });
-
-        const apiUrl = `${BACKEND_URL}/api/hotels/search?${queryParams}`;
-        console.log("API URL:", apiUrl);
-        console.log("Search params:", Object.fromEntries(queryParams));
-
-        const response = await fetch(apiUrl);
-        console.log("Response status:", response.status);
-
-        const data = await response.json();
-        console.log("API Response:", data);
-
-        if (data.success) {
-          setHotels(data.data.hotels || []);
-          setPagination(
-            data.data.pagination || {
-              page: 1,
-              limit: 10,
-              total: 0,
-              totalPages: 0,
-            }
-          );
-        } else {
-          console.error("API Error:", data.message);
-          setHotels([]);
-        }
-      } catch (error) {
-        console.error("Error searching hotels:", error);
+      setSearchError(null);
+      const result = await ApiClient.searchHotels({
+        page,
+        limit: pagination.limit,
+        ...filters,
+      });
+
+      if (result.ok) {
+        setHotels(result.data.hotels || []);
+        setPagination(
+          result.data.pagination || {
+            page: 1,
+            limit: 10,
+            total: 0,
+            totalPages: 0,
+          }
+        );
+      } else {
+        console.error("Error searching hotels:", result.error);
+        setSearchError(result.error.message);
         setHotels([]);
-      } finally {
-        setLoading(false);
       }
+
+      setLoading(false);
     },
     [filters, pagination.limit]
   );
@@ -667,19 +613,8 @@ export default function HotelsPage() {
                           <div className='text-right min-w-[140px]'>
                             <div className='mb-2'>
                               {(() => {
-                                // Calculate starting price from hotel data
-                                let displayPrice = hotel.startingPrice;
-
-                                // If no starting price, calculate from rooms
-                                if (
-                                  !displayPrice &&
-                                  hotel.rooms &&
-                                  hotel.rooms.length > 0
-                                ) {
-                                  displayPrice = Math.min(
-                                    ...hotel.rooms.map((room) => room.basePrice)
-                                  );
-                                }
+                                const { displayPrice, stayPrice } =
+                                  getStartingPrice(hotel, filters);
 
                                 return (
                                   <>
@@ -694,6 +629,16 @@ export default function HotelsPage() {
                                         ? "per night"
                                         : ""}
                                     </span>
+                                    {stayPrice && (
+                                      <span className='text-xs text-gray-600 block'>
+                                        {formatRupees(stayPrice.total)} for{" "}
+                                        {stayPrice.nights.length} night
+                                        {stayPrice.nights.length !== 1
+                                          ? "s"
+                                          : ""}{" "}
+                                        incl. GST
+                                      </span>
+                                    )}
                                   </>
                                 );
                               })()}
@@ -770,6 +715,9 @@ export default function HotelsPage() {
                     We couldn&apos;t find any hotels matching your search
                     criteria. Try adjusting your filters or search terms.
                   </p>
+                  {searchError && (
+                    <p className='text-sm text-red-600 mb-4'>{searchError}</p>
+                  )}
                   <button
                     onClick={() => {
                       setFilters({
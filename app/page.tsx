@@ -1,15 +1,17 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import Link from "next/link";
 import Image from "next/image";
 import { useRouter } from "next/navigation";
 import { AuthService } from "../lib/auth";
+import { useAuth } from "../components/auth/AuthProvider";
 
 export default function Home() {
   const router = useRouter();
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [loading, setLoading] = useState(true);
+  const { status: authStatus, user, signOut } = useAuth();
+  const isAuthenticated = authStatus === "authenticated";
+  const loading = authStatus === "loading";
   const [searchData, setSearchData] = useState({
     location: "",
     checkIn: "",
@@ -17,29 +19,8 @@ export default function Home() {
     guests: 2,
   });
 
-  // Check authentication status
-  useEffect(() => {
-    const checkAuth = () => {
-      const authenticated = AuthService.isAuthenticated();
-      setIsAuthenticated(authenticated);
-      setLoading(false);
-    };
-
-    checkAuth();
-
-    // Listen for storage events to update auth status across tabs
-    const handleStorageChange = () => {
-      checkAuth();
-    };
-
-    window.addEventListener("storage", handleStorageChange);
-    return () => window.removeEventListener("storage", handleStorageChange);
-  }, []);
-
   const handleSignOut = () => {
-    AuthService.clearAuthData();
-    setIsAuthenticated(false);
-    window.location.reload();
+    signOut();
   };
 
   const handleSearch = (e: React.FormEvent) => {
@@ -91,6 +72,14 @@ export default function Home() {
                 <div className='w-24 h-10 bg-green-100 animate-pulse rounded-lg'></div>
               ) : isAuthenticated ? (
                 <div className='flex items-center space-x-4'>
+                  {AuthService.hasRole(user, "VENDOR") && (
+                    <Link
+                      href='/vendor'
+                      className='text-green-700 hover:text-green-900 font-medium transition-colors px-4 py-2 rounded-lg hover:bg-green-50'
+                    >
+                      Vendor Portal
+                    </Link>
+                  )}
                   <Link
                     href='/bookings'
                     className='text-green-700 hover:text-green-900 font-medium transition-colors px-4 py-2 rounded-lg hover:bg-green-50'
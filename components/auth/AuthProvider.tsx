@@ -0,0 +1,92 @@
+"use client";
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
+import { AuthService, AuthTokens, User } from "../../lib/auth";
+import PaymentReconciler from "../../lib/payment-reconciler";
+import SessionManager, { SessionState } from "../../lib/session-manager";
+import { useSession } from "../../lib/use-session";
+
+export type AuthStatus = "loading" | "authenticated" | "unauthenticated";
+
+interface AuthContextValue {
+  user: User | null;
+  status: AuthStatus;
+  session: SessionState;
+  signIn: (tokens: AuthTokens | null, user: User) => void;
+  signOut: () => void;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [user, setUser] = useState<User | null>(null);
+  const [status, setStatus] = useState<AuthStatus>("loading");
+  const session = useSession();
+
+  const syncFromStorage = useCallback(() => {
+    const authenticated = AuthService.isAuthenticated();
+    setUser(authenticated ? AuthService.getUser() : null);
+    setStatus(authenticated ? "authenticated" : "unauthenticated");
+  }, []);
+
+  // Read stored auth on mount and keep it in sync across tabs
+  useEffect(() => {
+    syncFromStorage();
+
+    window.addEventListener("storage", syncFromStorage);
+    return () => window.removeEventListener("storage", syncFromStorage);
+  }, [syncFromStorage]);
+
+  // authenticatedFetch clears stored auth when a refresh fails
+  useEffect(() => {
+    if (session.status === "inactive" && status === "authenticated") {
+      syncFromStorage();
+    }
+  }, [session.status, status, syncFromStorage]);
+
+  // Finish verifying payments left unconfirmed by an earlier visit
+  useEffect(() => {
+    if (status === "authenticated") {
+      PaymentReconciler.start();
+    } else if (status === "unauthenticated") {
+      PaymentReconciler.stop();
+    }
+  }, [status]);
+
+  const signIn = useCallback(
+    (tokens: AuthTokens | null, nextUser: User) => {
+      AuthService.setAuthData(tokens, nextUser);
+      SessionManager.evaluate();
+      syncFromStorage();
+    },
+    [syncFromStorage]
+  );
+
+  const signOut = useCallback(() => {
+    AuthService.clearAuthData();
+    SessionManager.evaluate();
+    syncFromStorage();
+  }, [syncFromStorage]);
+
+  const value = useMemo(
+    () => ({ user, status, session, signIn, signOut }),
+    [user, status, session, signIn, signOut]
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
+
+export function useAuth(): AuthContextValue {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
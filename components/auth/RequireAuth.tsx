@@ -0,0 +1,48 @@
+"use client";
+
+import { useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { AuthService, UserRole } from "../../lib/auth";
+import { useAuth } from "./AuthProvider";
+
+interface RequireAuthProps {
+  children: React.ReactNode;
+  // Only users with one of these roles may view the page; others go to their home route
+  roles?: UserRole[];
+  // Rendered while auth is loading or the redirect is in progress
+  fallback?: React.ReactNode;
+}
+
+const defaultFallback = (
+  <div className='min-h-screen flex items-center justify-center'>
+    <div className='animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600'></div>
+  </div>
+);
+
+// Renders children only for signed-in users; everyone else is sent to /auth
+// with the current URL preserved as the return URL
+export function RequireAuth({
+  children,
+  roles,
+  fallback = defaultFallback,
+}: RequireAuthProps) {
+  const router = useRouter();
+  const { status, user } = useAuth();
+  const roleAllowed = !roles || AuthService.hasRole(user, ...roles);
+
+  useEffect(() => {
+    if (status === "unauthenticated") {
+      const returnUrl = window.location.pathname + window.location.search;
+      AuthService.setReturnUrl(returnUrl);
+      router.replace(AuthService.getSignInUrl(returnUrl));
+    } else if (status === "authenticated" && !roleAllowed) {
+      router.replace(AuthService.getHomeRoute(user));
+    }
+  }, [status, roleAllowed, user, router]);
+
+  if (status !== "authenticated" || !roleAllowed) {
+    return <>{fallback}</>;
+  }
+
+  return <>{children}</>;
+}
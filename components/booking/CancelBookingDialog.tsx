@@ -0,0 +1,220 @@
+"use client";
+
+import { useState } from "react";
+import ApiClient, { ApiError, BookingCancellation } from "../../lib/api-client";
+import { Booking } from "../../lib/booking-normalizer";
+import {
+  CANCELLATION_REASONS,
+  CancellationReason,
+  describeTier,
+  getPolicyTiers,
+  getRefundPreview,
+} from "../../lib/cancellation-policy";
+import { formatRupees } from "../../lib/pricing";
+import RefundStatus from "./RefundStatus";
+
+interface CancelBookingDialogProps {
+  booking: Booking;
+  onClose: () => void;
+  // Called once the backend has cancelled the booking
+  onCancelled: () => void;
+  // Returns true when the error was an expired session and has been handled
+  onAuthError?: (error: ApiError) => boolean;
+}
+
+// Reason selection, refund preview from the hotel's policy, then the refund outcome
+export default function CancelBookingDialog({
+  booking,
+  onClose,
+  onCancelled,
+  onAuthError,
+}: CancelBookingDialogProps) {
+  const [reason, setReason] = useState<CancellationReason | "">("");
+  const [otherReason, setOtherReason] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // null until cancelled; undefined when the backend sent no refund details
+  const [cancellation, setCancellation] = useState<
+    BookingCancellation | null | undefined
+  >(null);
+
+  const preview = getRefundPreview(booking);
+  const tiers = getPolicyTiers(booking.cancellationTiers);
+  const cancelled = cancellation !== null;
+
+  const handleConfirm = async () => {
+    if (!reason) {
+      setError("Please choose a reason for cancelling.");
+      return;
+    }
+    if (reason === "Other" && !otherReason.trim()) {
+      setError("Please tell us why you are cancelling.");
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    const result = await ApiClient.cancelBooking(booking.id, {
+      reason: reason === "Other" ? otherReason.trim() : reason,
+      requestRefund: preview.refundAmount > 0,
+    });
+
+    if (result.ok) {
+      setCancellation(result.data);
+      onCancelled();
+    } else if (onAuthError?.(result.error)) {
+      return;
+    } else if (result.error.kind === "network") {
+      console.error("Error cancelling booking:", result.error);
+      setError("Failed to cancel booking. Please try again.");
+    } else {
+      setError(result.error.message || "Failed to cancel booking");
+    }
+    setSubmitting(false);
+  };
+
+  return (
+    <div className='fixed inset-0 bg-black/40 flex items-center justify-center z-50 p-4'>
+      <div className='bg-white rounded-lg shadow-xl max-w-lg w-full p-6 max-h-full overflow-y-auto'>
+        <div className='flex justify-between items-start mb-4'>
+          <div>
+            <h3 className='text-lg font-bold text-gray-900'>
+              {cancelled ? "Booking Cancelled" : "Cancel Booking"}
+            </h3>
+            <p className='text-sm text-gray-600'>
+              {booking.hotel.name || "Hotel"} •{" "}
+              {booking.reference || booking.id}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className='text-gray-500 hover:text-gray-700'
+          >
+            ✕
+          </button>
+        </div>
+
+        {cancelled ? (
+          <div className='space-y-4 text-sm'>
+            <p className='text-gray-800'>Your booking has been cancelled.</p>
+            {cancellation?.refund ? (
+              <RefundStatus refund={cancellation.refund} />
+            ) : (
+              preview.refundAmount > 0 && (
+                <p className='text-gray-800'>
+                  A refund of {formatRupees(preview.refundAmount)} will be
+                  processed to your original payment method.
+                </p>
+              )
+            )}
+          </div>
+        ) : (
+          <div className='space-y-5 text-sm'>
+            {/* Policy */}
+            <div>
+              <h4 className='font-semibold text-gray-800 mb-2'>
+                Cancellation policy
+              </h4>
+              <ul className='space-y-1'>
+                {tiers.map((tier) => (
+                  <li
+                    key={tier.minDaysBefore}
+                    className={
+                      tier === preview.tier
+                        ? "font-medium text-blue-700"
+                        : "text-gray-700"
+                    }
+                  >
+                    {tier === preview.tier ? "→ " : ""}
+                    {describeTier(tier)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            {/* Refund preview */}
+            <div className='bg-gray-50 rounded-lg p-4 space-y-1'>
+              <div className='flex justify-between'>
+                <span className='text-gray-800'>Amount paid</span>
+                <span className='text-gray-900'>
+                  {formatRupees(preview.amountPaid)}
+                </span>
+              </div>
+              <div className='flex justify-between'>
+                <span className='text-gray-800'>
+                  Cancelling {preview.daysBeforeCheckIn} day
+                  {preview.daysBeforeCheckIn === 1 ? "" : "s"} before check-in
+                </span>
+                <span className='text-gray-900'>
+                  {preview.tier?.refundPercent ?? 0}% refund
+                </span>
+              </div>
+              <div className='flex justify-between font-bold text-base pt-1'>
+                <span className='text-gray-900'>Refund</span>
+                <span className='text-gray-900'>
+                  {formatRupees(preview.refundAmount)}
+                </span>
+              </div>
+            </div>
+
+            {/* Reason */}
+            <div>
+              <h4 className='font-semibold text-gray-800 mb-2'>
+                Reason for cancelling
+              </h4>
+              <div className='space-y-1'>
+                {CANCELLATION_REASONS.map((option) => (
+                  <label
+                    key={option}
+                    className='flex items-center gap-2 text-gray-800'
+                  >
+                    <input
+                      type='radio'
+                      name='cancellationReason'
+                      checked={reason === option}
+                      onChange={() => setReason(option)}
+                    />
+                    {option}
+                  </label>
+                ))}
+              </div>
+              {reason === "Other" && (
+                <textarea
+                  value={otherReason}
+                  onChange={(e) => setOtherReason(e.target.value)}
+                  rows={3}
+                  placeholder='Tell us why you are cancelling'
+                  className='mt-2 w-full border border-gray-300 rounded-lg px-3 py-2 text-gray-900'
+                />
+              )}
+            </div>
+
+            {error && (
+              <div className='bg-red-50 border border-red-200 p-3 text-red-800'>
+                {error}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className='flex justify-end gap-3 mt-6'>
+          <button
+            onClick={onClose}
+            className='border border-gray-300 hover:bg-gray-50 text-gray-800 px-4 py-2 rounded-lg text-sm font-medium'
+          >
+            {cancelled ? "Done" : "Keep Booking"}
+          </button>
+          {!cancelled && (
+            <button
+              onClick={handleConfirm}
+              disabled={submitting}
+              className='bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-lg text-sm font-medium disabled:opacity-50'
+            >
+              {submitting ? "Cancelling..." : "Confirm Cancellation"}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { formatRupees } from "../../lib/pricing";
+import { ChargeBreakdown } from "../../lib/receipt";
+
+interface ChargeBreakdownTableProps {
+  charges: ChargeBreakdown;
+  nights: number;
+  totalLabel?: string;
+}
+
+// Room charges, any discount, each GST component and the total
+export default function ChargeBreakdownTable({
+  charges,
+  nights,
+  totalLabel = "Total Paid",
+}: ChargeBreakdownTableProps) {
+  return (
+    <div className='space-y-3'>
+      <div className='flex justify-between'>
+        <span className='text-gray-800'>
+          Room charges ({nights} night{nights === 1 ? "" : "s"})
+        </span>
+        <span className='text-gray-900'>
+          {formatRupees(charges.roomCharges)}
+        </span>
+      </div>
+
+      {charges.discounts.map((discount) => (
+        <div key={discount.label} className='flex justify-between'>
+          <span className='text-green-700'>{discount.label}</span>
+          <span className='text-green-700'>
+            −{formatRupees(discount.amount)}
+          </span>
+        </div>
+      ))}
+
+      {charges.taxes.map((tax) => (
+        <div key={tax.label} className='flex justify-between'>
+          <span className='text-gray-800'>{tax.label}</span>
+          <span className='text-gray-900'>{formatRupees(tax.amount)}</span>
+        </div>
+      ))}
+
+      <hr className='my-3' />
+
+      <div className='flex justify-between text-lg font-bold'>
+        <span className='text-gray-900'>{totalLabel}</span>
+        <span className='text-gray-900'>{formatRupees(charges.total)}</span>
+      </div>
+
+      {charges.estimated && (
+        <p className='text-xs text-gray-500'>
+          GST is calculated from the total paid.
+        </p>
+      )}
+    </div>
+  );
+}
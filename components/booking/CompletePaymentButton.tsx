@@ -0,0 +1,90 @@
+"use client";
+
+import { useState } from "react";
+import CheckoutService from "../../lib/checkout";
+import { describeQuoteMismatch } from "../../lib/price-quote";
+import { isCheckoutTimeout } from "../../lib/payment-failures";
+
+interface CompletePaymentButtonProps {
+  bookingId: string;
+  // The booking's total; checkout does not open when the order charges more or
+  // less. 0 when the backend did not send one.
+  totalAmount: number;
+  // Called once the payment attempt settles so the page can refetch the booking
+  onSettled: () => void;
+  className?: string;
+}
+
+// Resumes checkout for a DRAFT or PENDING booking
+export default function CompletePaymentButton({
+  bookingId,
+  totalAmount,
+  onSettled,
+  className = "bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg text-sm font-medium disabled:opacity-50",
+}: CompletePaymentButtonProps) {
+  const [opening, setOpening] = useState(false);
+
+  const handleClick = async () => {
+    setOpening(true);
+
+    const started = await CheckoutService.start(
+      bookingId,
+      {
+        onPaymentResult: (result) => {
+          if (result.ok) {
+            alert("Payment successful! Your booking has been confirmed.");
+          } else {
+            console.error("Payment verification failed:", result.error);
+            alert(
+              "We received your payment but could not confirm your booking yet. We will keep checking, and your booking will update automatically. Please do not pay again."
+            );
+          }
+          onSettled();
+        },
+        onDismiss: onSettled,
+        // Earlier failures are retried inside the open checkout
+        onFailure: (failure) => {
+          if (failure.retriesLeft !== 0) return;
+          alert(
+            isCheckoutTimeout(failure)
+              ? `${failure.message} Click Complete Payment to try again.`
+              : `${failure.message} No more retries are allowed for this payment; click Complete Payment to try again.`
+          );
+          onSettled();
+        },
+      },
+      undefined,
+      totalAmount > 0 ? { total: totalAmount } : undefined
+    );
+
+    if (!started.ok) {
+      if (started.reason === "gateway") {
+        alert("Failed to initialize payment. Please try again.");
+      } else if (started.reason === "order") {
+        console.error("Error creating payment order:", started.error);
+        alert(
+          started.error.kind === "network"
+            ? "Failed to create payment order. Please try again."
+            : started.error.message ||
+                "Failed to create payment order. Please try again."
+        );
+        onSettled();
+      } else if (started.reason === "mismatch") {
+        console.error("Payment order does not match the booking total:", {
+          totalAmount,
+          mismatch: started.mismatch,
+        });
+        alert(describeQuoteMismatch(started.mismatch));
+        onSettled();
+      }
+    }
+
+    setOpening(false);
+  };
+
+  return (
+    <button onClick={handleClick} disabled={opening} className={className}>
+      {opening ? "Opening Payment..." : "Complete Payment"}
+    </button>
+  );
+}
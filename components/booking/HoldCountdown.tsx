@@ -0,0 +1,52 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+interface HoldCountdownProps {
+  expiresAt: Date;
+  onExpire?: () => void;
+}
+
+function formatRemaining(ms: number): string {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, "0");
+  return `${minutes}:${seconds}`;
+}
+
+// Time left on a PENDING booking's room reservation
+export default function HoldCountdown({
+  expiresAt,
+  onExpire,
+}: HoldCountdownProps) {
+  const [now, setNow] = useState(() => Date.now());
+  const remaining = expiresAt.getTime() - now;
+  const expired = remaining <= 0;
+
+  useEffect(() => {
+    if (expired) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [expired]);
+
+  useEffect(() => {
+    if (expired) onExpire?.();
+  }, [expired, onExpire]);
+
+  if (expired) {
+    return (
+      <div className='text-sm text-red-700'>
+        Room hold expired. Completing payment will re-check availability.
+      </div>
+    );
+  }
+
+  return (
+    <div className='text-sm text-yellow-800'>
+      Room held for{" "}
+      <span className='font-mono font-medium'>
+        {formatRemaining(remaining)}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+"use client";
+
+import { Receipt } from "../../lib/receipt";
+import { downloadReceiptPdf } from "../../lib/receipt-pdf";
+
+interface InvoiceDownloadProps {
+  receipt: Receipt;
+  className?: string;
+}
+
+// The backend's invoice when it has issued one, else a PDF of the receipt
+export default function InvoiceDownload({
+  receipt,
+  className = "inline-block bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg text-sm font-medium",
+}: InvoiceDownloadProps) {
+  if (receipt.invoiceUrl) {
+    return (
+      <a
+        href={receipt.invoiceUrl}
+        target='_blank'
+        rel='noopener noreferrer'
+        className={className}
+      >
+        Download Invoice
+      </a>
+    );
+  }
+
+  return (
+    <button onClick={() => downloadReceiptPdf(receipt)} className={className}>
+      Download Receipt (PDF)
+    </button>
+  );
+}
@@ -0,0 +1,47 @@
+import { BookingRefund } from "../../lib/api-client";
+
+interface RefundStatusProps {
+  refund: BookingRefund;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  PENDING: "Refund initiated",
+  PROCESSING: "Refund processing",
+  PROCESSED: "Refunded",
+  COMPLETED: "Refunded",
+  FAILED: "Refund failed",
+};
+
+// Refund amount, where it has got to and when it should arrive
+export default function RefundStatus({ refund }: RefundStatusProps) {
+  const status = refund.status.toUpperCase();
+  const settled = status === "PROCESSED" || status === "COMPLETED";
+
+  return (
+    <div
+      className={`rounded-lg p-3 text-sm border ${
+        status === "FAILED"
+          ? "bg-red-50 border-red-200 text-red-800"
+          : "bg-blue-50 border-blue-200 text-blue-800"
+      }`}
+    >
+      <div className='font-medium'>
+        {STATUS_LABELS[status] || refund.status}: ₹
+        {refund.amount.toLocaleString("en-IN")}
+      </div>
+      {!settled && refund.expectedBy && (
+        <div>
+          Expected by{" "}
+          {new Date(refund.expectedBy).toLocaleDateString("en-IN", {
+            day: "numeric",
+            month: "long",
+            year: "numeric",
+          })}
+        </div>
+      )}
+      {status === "FAILED" && (
+        <div>Please contact support to arrange your refund.</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { formatRupees, PriceBreakdown } from "../../lib/pricing";
+
+interface StayPriceBreakdownProps {
+  price: PriceBreakdown;
+  totalLabel?: string;
+}
+
+// Room charges per rate, discounts, GST per slab and the total
+export default function StayPriceBreakdown({
+  price,
+  totalLabel = "Total Amount",
+}: StayPriceBreakdownProps) {
+  return (
+    <div className='space-y-2'>
+      {price.lines.map((line) => (
+        <div key={line.label} className='flex justify-between'>
+          <span>{line.label}</span>
+          <span>{formatRupees(line.amount)}</span>
+        </div>
+      ))}
+
+      {price.discounts?.map((discount) => (
+        <div
+          key={discount.label}
+          className='flex justify-between text-green-700'
+        >
+          <span>{discount.label}</span>
+          <span>−{formatRupees(discount.amount)}</span>
+        </div>
+      ))}
+
+      {price.taxes.map((tax) => (
+        <div key={tax.label} className='flex justify-between'>
+          <span>{tax.label}</span>
+          <span>{formatRupees(tax.amount)}</span>
+        </div>
+      ))}
+
+      <hr className='my-3' />
+
+      <div className='flex justify-between text-lg font-medium text-gray-900'>
+        <span>{totalLabel}</span>
+        <span>{formatRupees(price.total)}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import PaymentReconciler from "../../lib/payment-reconciler";
+import { useUnverifiedPayments } from "../../lib/use-unverified-payments";
+
+interface UnverifiedPaymentsBannerProps {
+  // Called when a stored payment is confirmed so the page can refetch bookings
+  onReconciled?: () => void;
+}
+
+// Payments that went through at the gateway but are not yet confirmed by the backend
+export default function UnverifiedPaymentsBanner({
+  onReconciled,
+}: UnverifiedPaymentsBannerProps) {
+  const payments = useUnverifiedPayments();
+  const [retrying, setRetrying] = useState(false);
+  const previousCount = useRef(payments.length);
+
+  useEffect(() => {
+    if (payments.length < previousCount.current) {
+      onReconciled?.();
+    }
+    previousCount.current = payments.length;
+  }, [payments.length, onReconciled]);
+
+  if (payments.length === 0) return null;
+
+  const handleRetry = async () => {
+    setRetrying(true);
+    await PaymentReconciler.reconcile(true);
+    setRetrying(false);
+  };
+
+  return (
+    <div className='bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6'>
+      <div className='flex justify-between items-start'>
+        <div>
+          <h2 className='font-medium text-yellow-900'>
+            Confirming {payments.length === 1 ? "a payment" : "payments"}
+          </h2>
+          <p className='text-sm text-yellow-800 mt-1'>
+            We received your payment but have not confirmed the booking yet.
+            Please do not pay again.
+          </p>
+        </div>
+        <button
+          onClick={handleRetry}
+          disabled={retrying}
+          className='px-3 py-1 border border-yellow-300 rounded-lg text-sm text-yellow-900 hover:bg-yellow-100 disabled:opacity-50'
+        >
+          {retrying ? "Checking..." : "Check now"}
+        </button>
+      </div>
+
+      <ul className='mt-3 space-y-1 text-sm text-yellow-900'>
+        {payments.map((payment) => (
+          <li key={payment.bookingId}>
+            <Link
+              href={`/bookings/${payment.bookingId}`}
+              className='underline font-medium'
+            >
+              Booking {payment.bookingId}
+            </Link>{" "}
+            • Payment ID{" "}
+            <span className='font-mono'>
+              {payment.gatewayPayment.paymentId}
+            </span>{" "}
+            •{" "}
+            {payment.nextAttemptAt === null
+              ? "Automatic checks stopped. Contact support with this payment ID."
+              : "Checking automatically"}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,1072 @@
+// Typed client for the Sojourn backend
+// Builds URLs from config.endpoints and returns discriminated results instead of raw responses
+
+import config from "./config";
+import { AuthService, AuthError, AuthTokens, User } from "./auth";
+import type {
+  GatewayPayment,
+  PaymentBackendData,
+  PaymentFailure,
+} from "./payment-utils";
+import { formatIssues, ValidationIssue, Validator } from "./validation";
+import {
+  availabilitySchema,
+  assistantAnswerSchema,
+  bookingCancellationSchema,
+  bookingDetailsSchema,
+  bookingModificationSchema,
+  cookieSignInSchema,
+  createdBookingSchema,
+  customerBookingsSchema,
+  hotelRoomSchema,
+  hotelSchema,
+  hotelSearchSchema,
+  paymentOrderSchema,
+  priceQuoteSchema,
+  promoCodeSchema,
+  roomBlockSchema,
+  roomCalendarSchema,
+  sendOtpSchema,
+  vendorBookingSchema,
+  vendorBookingsSchema,
+  vendorRoomsSchema,
+  verifiedPaymentSchema,
+  verifyOtpSchema,
+} from "./schemas";
+
+export interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+}
+
+export interface HotelImage {
+  id: string;
+  imageUrl: string;
+  thumbnailUrl: string;
+  description: string;
+  isPrimary: boolean;
+  imageType?: string;
+}
+
+export interface HotelRoom {
+  id: string;
+  roomType: string;
+  roomNumber: string;
+  capacity: number;
+  basePrice: number;
+  summerPrice?: number;
+  winterPrice?: number;
+  amenities: string[];
+  isAvailable: boolean;
+  images: Array<{
+    id: string;
+    imageUrl: string;
+    description: string;
+    isPrimary: boolean;
+  }>;
+}
+
+// Full hotel profile returned by GET /api/hotels/{id}
+export interface Hotel {
+  id: string;
+  hotelName: string;
+  category: string;
+  totalRooms?: number;
+  amenities?: string[];
+  cancellationPolicy?: string;
+  cancellationTiers?: CancellationTier[];
+  checkInTime?: string;
+  checkOutTime?: string;
+  vendor?: {
+    businessName?: string;
+    ownerName?: string;
+    businessAddress?: string;
+    contactNumbers?: string[];
+    email?: string;
+    images?: HotelImage[];
+  };
+  rooms?: HotelRoom[];
+  location?: {
+    googleMapsLink: string;
+    coordinates: {
+      latitude: number;
+      longitude: number;
+    };
+  };
+  avgRating?: number;
+  totalReviews?: number;
+}
+
+// Hotel card returned by GET /api/hotels/search
+export interface HotelSearchResult {
+  id: string;
+  hotelName: string;
+  category: string;
+  totalRooms?: number;
+  amenities: string[];
+  checkInTime?: string;
+  checkOutTime?: string;
+  vendor: {
+    businessName: string;
+    businessAddress: string;
+    contactNumbers: string[];
+    images: HotelImage[];
+  };
+  rooms: Array<{
+    id: string;
+    roomType: string;
+    capacity: number;
+    basePrice: number;
+    summerPrice?: number;
+    winterPrice?: number;
+    amenities: string[];
+  }>;
+  avgRating: number;
+  totalReviews: number;
+  startingPrice?: number;
+}
+
+export interface HotelSearchParams {
+  page?: number;
+  limit?: number;
+  location?: string;
+  checkIn?: string;
+  checkOut?: string;
+  guests?: number;
+  category?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  amenities?: string[];
+}
+
+export interface RoomAvailability {
+  id: string;
+  roomType: string;
+  roomNumber: string;
+  capacity: number;
+  pricePerNight?: number;
+  totalPrice?: number;
+  amenities?: string[];
+  images?: Array<{
+    imageUrl: string;
+    isPrimary: boolean;
+  }>;
+}
+
+export interface PriceQuoteRequest {
+  roomId: string;
+  checkIn: string;
+  checkOut: string;
+  guests: number;
+  promoCode?: string;
+}
+
+export interface PriceQuoteLine {
+  label: string;
+  amount: number;
+}
+
+// The backend's price for a stay, in rupees; the payment order must match it
+export interface PriceQuote {
+  quoteId?: string;
+  // Room charges, e.g. one line per nightly rate
+  lines: PriceQuoteLine[];
+  // Promo discounts, taken off the room charges before GST
+  discounts?: PriceQuoteLine[];
+  // Room charges after discounts
+  subtotal: number;
+  // GST lines
+  taxes: PriceQuoteLine[];
+  totalTax: number;
+  total: number;
+  currency?: string;
+  // After this the price may change and a new quote is needed (ISO timestamp)
+  expiresAt?: string;
+}
+
+export type PromoDiscountType = "PERCENTAGE" | "FLAT" | "FREE_NIGHTS";
+
+// A promo code's terms, as returned when the code is validated
+export interface PromoCode {
+  code: string;
+  description?: string;
+  discountType: PromoDiscountType;
+  // Percent off, rupees off or nights free, by discountType
+  value: number;
+  // Cap on a percentage discount, in rupees
+  maxDiscount?: number;
+  minNights?: number;
+  // Check-in must fall within these dates (YYYY-MM-DD)
+  validFrom?: string;
+  validUntil?: string;
+}
+
+export interface PromoCodeRequest {
+  code: string;
+  hotelId: string;
+  roomId: string;
+  checkIn: string;
+  checkOut: string;
+  guests: number;
+}
+
+export interface GuestDetails {
+  firstName: string;
+  lastName: string;
+  age?: number;
+  idProofType?: string;
+  idProofNumber?: string;
+  isPrimaryGuest: boolean;
+  specialRequests?: string;
+}
+
+export interface CreateBookingRequest {
+  hotelId: string;
+  roomId: string;
+  checkInDate: string;
+  checkOutDate: string;
+  numberOfGuests: number;
+  userDetails: {
+    firstName: string;
+    lastName: string;
+    email?: string;
+    dateOfBirth?: string;
+    address?: string;
+    emergencyContact?: string;
+    idProofType?: string;
+    idProofNumber?: string;
+  };
+  guestDetails: GuestDetails[];
+  specialRequests?: string;
+  promoCode?: string;
+}
+
+export interface CreatedBooking {
+  id: string;
+  status: string;
+}
+
+// GST charged on a payment, in rupees
+export interface PaymentTaxes {
+  taxableAmount: number;
+  // Percentage applied, e.g. 12
+  gstRate?: number;
+  cgst?: number;
+  sgst?: number;
+  igst?: number;
+  totalTax: number;
+}
+
+// Promo discount applied to a payment, in rupees
+export interface PaymentDiscount {
+  code: string;
+  description?: string;
+  amount: number;
+}
+
+export interface PaymentInvoice {
+  invoiceNumber?: string;
+  invoiceUrl?: string;
+  issuedAt?: string;
+}
+
+export interface VerifiedPayment {
+  invoice?: PaymentInvoice;
+}
+
+// One step of a hotel's cancellation policy
+export interface CancellationTier {
+  // Applies when cancelling at least this many days before check-in
+  minDaysBefore: number;
+  refundPercent: number;
+}
+
+export interface BookingRefund {
+  amount: number;
+  status: string;
+  expectedBy?: string;
+}
+
+export interface ModifyBookingRequest {
+  checkInDate: string;
+  checkOutDate: string;
+  roomId: string;
+  numberOfGuests: number;
+}
+
+// Result of PATCH /api/hotels/bookings/{id}/modify
+export interface BookingModification {
+  status: string;
+  totalAmount: number;
+  // Positive when the guest owes more, negative when a refund is due
+  priceDifference: number;
+  // Order for the balance when priceDifference is positive
+  paymentOrder?: PaymentBackendData;
+  refund?: BookingRefund;
+}
+
+export interface CancelBookingRequest {
+  reason: string;
+  requestRefund: boolean;
+}
+
+// Result of PATCH /api/hotels/bookings/{id}/cancel
+export interface BookingCancellation {
+  status: string;
+  refund?: BookingRefund;
+}
+
+// Booking returned by GET /api/hotels/bookings/{id}
+export interface BookingDetails {
+  bookingRef: string;
+  status: string;
+  checkInDate: string;
+  checkOutDate: string;
+  numberOfGuests: number;
+  totalAmount: number;
+  createdAt: string;
+  specialRequests?: string;
+  guests: GuestDetails[];
+  hotel: {
+    id?: string;
+    name: string;
+    category: string;
+    address: string;
+    contactNumbers: string[];
+  };
+  room: {
+    id?: string;
+    type: string;
+    number: string;
+    capacity: number;
+    amenities: string[];
+  };
+  customer: {
+    phoneNumber: string;
+    firstName: string;
+    lastName: string;
+    email: string;
+    emergencyContact?: string;
+    idProofType?: string;
+    idProofNumber?: string;
+  };
+  payment?: {
+    paymentStatus: string;
+    paymentMethod: string;
+    totalAmount: number;
+    processedAt: string;
+    razorpayPaymentId?: string;
+    razorpayOrderId?: string;
+    taxes?: PaymentTaxes;
+    discount?: PaymentDiscount;
+    invoice?: PaymentInvoice;
+  };
+  vendor: {
+    businessName: string;
+    contactNumbers: string[];
+  };
+  canModify?: boolean;
+  cancellationTiers?: CancellationTier[];
+  // Set once a cancelled booking's refund has been initiated
+  refund?: BookingRefund;
+  // Set while a PENDING booking holds the room
+  holdExpiresAt?: string;
+}
+
+export type BookingStatus = keyof typeof config.bookingStatuses;
+
+// Booking row returned by GET /api/hotels/customer/bookings
+// Older rows omit the nested booking, hotelProfile and room objects
+export interface CustomerBooking {
+  id?: string;
+  checkInDate: string;
+  checkOutDate: string;
+  numberOfGuests: number;
+  totalAmount?: number;
+  // Checked by getStatusMeta, which has a fallback for unknown statuses
+  status: string;
+  booking?: {
+    id?: string;
+    bookingType?: string;
+    status?: string;
+    payment?: {
+      paymentStatus?: string;
+      paymentMethod?: string;
+      razorpayPaymentId?: string;
+      processedAt?: string;
+    };
+  };
+  hotelProfile?: {
+    hotelName?: string;
+    vendor?: {
+      businessName?: string;
+      businessAddress?: string;
+      contactNumbers?: string[];
+    };
+  };
+  room?: {
+    roomType?: string;
+    roomNumber?: string;
+  };
+  canCancel?: boolean;
+  canModify?: boolean;
+  cancellationTiers?: CancellationTier[];
+  refund?: BookingRefund;
+  createdAt: string;
+  holdExpiresAt?: string;
+}
+
+export interface BookingSummary {
+  totalBookings: number;
+  upcomingBookings: number;
+  completedBookings: number;
+  cancelledBookings: number;
+  totalSpent: number;
+}
+
+export interface CustomerBookingsParams {
+  page: number;
+  limit: number;
+  status?: string;
+}
+
+// Booking row returned by GET /api/hotels/vendor/bookings
+export interface VendorBooking {
+  id: string;
+  bookingRef?: string;
+  status: string;
+  checkInDate: string;
+  checkOutDate: string;
+  numberOfGuests: number;
+  totalAmount: number;
+  createdAt: string;
+  specialRequests?: string;
+  room?: {
+    roomType?: string;
+    roomNumber?: string;
+  };
+  customer?: {
+    firstName?: string;
+    lastName?: string;
+    phoneNumber?: string;
+    email?: string;
+    idProofType?: string;
+    idProofNumber?: string;
+  };
+  guests?: GuestDetails[];
+}
+
+// Editable room fields sent to the vendor room endpoints; images are new or existing URLs
+export type RoomInput = Omit<HotelRoom, "id" | "images"> & {
+  images: Array<Omit<HotelRoom["images"][number], "id">>;
+};
+
+// Booking occupying a room, as shown on the vendor calendar
+export interface RoomCalendarBooking {
+  id: string;
+  status: string;
+  checkInDate: string;
+  checkOutDate: string;
+  guestName?: string;
+}
+
+// Nights a vendor has taken a room off sale; endDate is exclusive like a check-out date
+export interface RoomBlock {
+  id: string;
+  startDate: string;
+  endDate: string;
+  reason: "MAINTENANCE" | "OFFLINE_BOOKING" | "OTHER";
+  note?: string;
+}
+
+export interface RoomCalendar {
+  bookings: RoomCalendarBooking[];
+  blocks: RoomBlock[];
+}
+
+export type RoomBlockRequest = Omit<RoomBlock, "id">;
+
+// Status changes the property can make to a booking
+export type VendorBookingAction = Extract<
+  BookingStatus,
+  "CHECKED_IN" | "COMPLETED" | "NO_SHOW"
+>;
+
+export interface VendorBookingsParams {
+  page: number;
+  limit: number;
+  status?: string;
+}
+
+export interface SendOtpData {
+  verificationId: string;
+  timeout: string;
+}
+
+export interface VerifyOtpData {
+  accessToken: string;
+  refreshToken: string;
+  user: User;
+}
+
+// Result of signing in; tokens is null when the session lives in httpOnly cookies
+export interface SignInData {
+  user: User;
+  tokens: AuthTokens | null;
+}
+
+export type ApiErrorKind = "network" | "http" | "api" | "auth" | "validation";
+
+export interface ApiError {
+  kind: ApiErrorKind;
+  message: string;
+  status?: number;
+  details?: unknown;
+  issues?: ValidationIssue[];
+}
+
+export type ApiResult<T> =
+  | { ok: true; data: T; message?: string }
+  | { ok: false; error: ApiError };
+
+interface RequestOptions<T> extends RequestInit {
+  authenticated?: boolean;
+  schema?: Validator<T>;
+}
+
+export class ApiClient {
+  // Build an absolute backend URL from an endpoint path
+  static url(path: string, query?: URLSearchParams): string {
+    const search = query && query.toString() ? `?${query}` : "";
+    return `${config.backendUrl}${path}${search}`;
+  }
+
+  private static idempotencyHeaders(key?: string): HeadersInit | undefined {
+    return key ? { "Idempotency-Key": key } : undefined;
+  }
+
+  // Perform a request, unwrap the { success, message, data } envelope and validate data
+  private static async request<T>(
+    url: string,
+    options: RequestOptions<T> = {}
+  ): Promise<ApiResult<T>> {
+    const { authenticated, schema, ...init } = options;
+
+    let response: Response;
+    try {
+      response = authenticated
+        ? await AuthService.authenticatedFetch(url, init)
+        : await fetch(url, {
+            ...init,
+            headers: {
+              "Content-Type": "application/json",
+              ...init.headers,
+            },
+          });
+    } catch (error) {
+      if (error instanceof AuthError) {
+        return { ok: false, error: { kind: "auth", message: error.message } };
+      }
+      return {
+        ok: false,
+        error: {
+          kind: "network",
+          message: "Network error. Please try again.",
+          details: error,
+        },
+      };
+    }
+
+    let body: unknown;
+    try {
+      body = await response.json();
+    } catch {
+      return {
+        ok: false,
+        error: {
+          kind: "http",
+          status: response.status,
+          message: response.statusText || "Invalid response from server",
+        },
+      };
+    }
+
+    const envelope =
+      body && typeof body === "object"
+        ? (body as { success?: unknown; message?: unknown; data?: unknown })
+        : {};
+    const message =
+      typeof envelope.message === "string" ? envelope.message : undefined;
+
+    if (!response.ok || envelope.success !== true) {
+      return {
+        ok: false,
+        error: {
+          kind: response.ok ? "api" : "http",
+          status: response.status,
+          message: message || response.statusText || "Request failed",
+          details: body,
+        },
+      };
+    }
+
+    if (!schema) {
+      return { ok: true, data: envelope.data as T, message };
+    }
+
+    const validated = schema(envelope.data, "data");
+    if (!validated.ok) {
+      console.error(
+        `Unexpected response shape from ${url}:`,
+        formatIssues(validated.issues, validated.issues.length)
+      );
+      return {
+        ok: false,
+        error: {
+          kind: "validation",
+          status: response.status,
+          message: `Unexpected response from server (${formatIssues(
+            validated.issues,
+            1
+          )})`,
+          details: body,
+          issues: validated.issues,
+        },
+      };
+    }
+
+    return { ok: true, data: validated.value, message };
+  }
+
+  // Auth
+
+  static sendOtp(phoneNumber: string): Promise<ApiResult<SendOtpData>> {
+    return this.request(this.url(`${config.endpoints.auth}/send-otp`), {
+      method: "POST",
+      body: JSON.stringify({ phoneNumber }),
+      schema: sendOtpSchema,
+    });
+  }
+
+  static async verifyOtp(payload: {
+    phoneNumber: string;
+    verificationId: string;
+    code: string;
+  }): Promise<ApiResult<SignInData>> {
+    // The route handler verifies with the backend and sets the session cookies
+    if (AuthService.usesCookieSession()) {
+      const result = await this.request("/api/auth/verify-otp", {
+        method: "POST",
+        body: JSON.stringify(payload),
+        schema: cookieSignInSchema,
+      });
+      if (!result.ok) return result;
+      return { ...result, data: { user: result.data.user, tokens: null } };
+    }
+
+    const result = await this.request(
+      this.url(`${config.endpoints.auth}/verify-otp`),
+      {
+        method: "POST",
+        body: JSON.stringify(payload),
+        schema: verifyOtpSchema,
+      }
+    );
+    if (!result.ok) return result;
+
+    const { accessToken, refreshToken, user } = result.data;
+    return { ...result, data: { user, tokens: { accessToken, refreshToken } } };
+  }
+
+  // Hotels
+
+  static searchHotels(
+    params: HotelSearchParams
+  ): Promise<
+    ApiResult<{ hotels?: HotelSearchResult[]; pagination?: Pagination }>
+  > {
+    const query = new URLSearchParams({
+      ...(params.page && { page: params.page.toString() }),
+      ...(params.limit && { limit: params.limit.toString() }),
+      ...(params.location && { location: params.location }),
+      ...(params.checkIn && { checkIn: params.checkIn }),
+      ...(params.checkOut && { checkOut: params.checkOut }),
+      ...(params.guests && { guests: params.guests.toString() }),
+      ...(params.category && { category: params.category }),
+      ...(params.minPrice && { minPrice: params.minPrice.toString() }),
+      ...(params.maxPrice && { maxPrice: params.maxPrice.toString() }),
+      ...(params.amenities &&
+        params.amenities.length > 0 && {
+          amenities: params.amenities.join(","),
+        }),
+    });
+
+    return this.request(this.url(`${config.endpoints.hotels}/search`, query), {
+      schema: hotelSearchSchema,
+    });
+  }
+
+  static getHotel(hotelId: string): Promise<ApiResult<Hotel>> {
+    return this.request(this.url(`${config.endpoints.hotels}/${hotelId}`), {
+      schema: hotelSchema,
+    });
+  }
+
+  static checkAvailability(
+    hotelId: string,
+    params: { checkIn: string; checkOut: string; guests: number }
+  ): Promise<ApiResult<{ availableRooms: RoomAvailability[] }>> {
+    const query = new URLSearchParams({
+      checkIn: params.checkIn,
+      checkOut: params.checkOut,
+      guests: params.guests.toString(),
+    });
+
+    return this.request(
+      this.url(`${config.endpoints.hotels}/${hotelId}/availability`, query),
+      { schema: availabilitySchema }
+    );
+  }
+
+  static getPriceQuote(
+    hotelId: string,
+    params: PriceQuoteRequest
+  ): Promise<ApiResult<PriceQuote>> {
+    const query = new URLSearchParams({
+      roomId: params.roomId,
+      checkIn: params.checkIn,
+      checkOut: params.checkOut,
+      guests: params.guests.toString(),
+      ...(params.promoCode && { promoCode: params.promoCode }),
+    });
+
+    return this.request(
+      this.url(`${config.endpoints.hotels}/${hotelId}/quote`, query),
+      { schema: priceQuoteSchema }
+    );
+  }
+
+  // Checks the code exists, is active and applies to this hotel and room;
+  // the stay's dates are checked against the terms returned
+  static validatePromoCode(
+    request: PromoCodeRequest
+  ): Promise<ApiResult<PromoCode>> {
+    return this.request(
+      this.url(`${config.endpoints.hotels}/promo-codes/validate`),
+      {
+        method: "POST",
+        body: JSON.stringify(request),
+        authenticated: true,
+        schema: promoCodeSchema,
+      }
+    );
+  }
+
+  // Bookings
+
+  // idempotencyKey identifies the booking attempt so retries and replays
+  // resolve to the booking the backend already created
+  static async createBooking(
+    booking: CreateBookingRequest,
+    idempotencyKey?: string
+  ): Promise<ApiResult<CreatedBooking>> {
+    const result = await this.request(this.url(config.endpoints.bookings), {
+      method: "POST",
+      body: JSON.stringify(booking),
+      headers: this.idempotencyHeaders(idempotencyKey),
+      authenticated: true,
+      schema: createdBookingSchema,
+    });
+
+    // A key replayed while its first request is settling may come back as a
+    // 409 that carries the original booking
+    if (!result.ok && result.error.status === 409) {
+      const details = result.error.details as { data?: unknown } | undefined;
+      const original = createdBookingSchema(details?.data);
+      if (original.ok) {
+        return {
+          ok: true,
+          data: original.value,
+          message: result.error.message,
+        };
+      }
+    }
+    return result;
+  }
+
+  static getBooking(bookingId: string): Promise<ApiResult<BookingDetails>> {
+    return this.request(this.url(`${config.endpoints.bookings}/${bookingId}`), {
+      authenticated: true,
+      schema: bookingDetailsSchema,
+    });
+  }
+
+  static cancelBooking(
+    bookingId: string,
+    payload: CancelBookingRequest
+  ): Promise<ApiResult<BookingCancellation | undefined>> {
+    return this.request(
+      this.url(`${config.endpoints.bookings}/${bookingId}/cancel`),
+      {
+        method: "PATCH",
+        body: JSON.stringify(payload),
+        authenticated: true,
+        schema: bookingCancellationSchema,
+      }
+    );
+  }
+
+  // The backend re-checks availability and reprices the stay; a higher price
+  // comes back with a payment order for the balance
+  static modifyBooking(
+    bookingId: string,
+    changes: ModifyBookingRequest,
+    idempotencyKey?: string
+  ): Promise<ApiResult<BookingModification>> {
+    return this.request(
+      this.url(`${config.endpoints.bookings}/${bookingId}/modify`),
+      {
+        method: "PATCH",
+        body: JSON.stringify(changes),
+        headers: this.idempotencyHeaders(idempotencyKey),
+        authenticated: true,
+        schema: bookingModificationSchema,
+      }
+    );
+  }
+
+  static listCustomerBookings(params: CustomerBookingsParams): Promise<
+    ApiResult<{
+      bookings: CustomerBooking[];
+      summary: BookingSummary;
+      pagination: Pagination;
+    }>
+  > {
+    const query = new URLSearchParams({
+      page: params.page.toString(),
+      limit: params.limit.toString(),
+      ...(params.status && { status: params.status }),
+    });
+
+    return this.request(this.url(config.endpoints.customerBookings, query), {
+      authenticated: true,
+      schema: customerBookingsSchema,
+    });
+  }
+
+  // Payments
+
+  static createPaymentOrder(
+    bookingId: string,
+    idempotencyKey?: string
+  ): Promise<ApiResult<PaymentBackendData>> {
+    return this.request(
+      this.url(
+        `${config.endpoints.bookings}/${bookingId}${config.endpoints.payment.createOrder}`
+      ),
+      {
+        method: "POST",
+        headers: this.idempotencyHeaders(idempotencyKey),
+        authenticated: true,
+        schema: paymentOrderSchema,
+      }
+    );
+  }
+
+  static verifyPayment(
+    bookingId: string,
+    payment: GatewayPayment
+  ): Promise<ApiResult<VerifiedPayment | undefined>> {
+    return this.request(
+      this.url(
+        `${config.endpoints.bookings}/${bookingId}${config.endpoints.payment.verify}`
+      ),
+      {
+        method: "POST",
+        // The backend expects Razorpay's field names for every provider
+        body: JSON.stringify({
+          razorpay_payment_id: payment.paymentId,
+          razorpay_order_id: payment.orderId,
+          razorpay_signature: payment.signature,
+        }),
+        authenticated: true,
+        schema: verifiedPaymentSchema,
+      }
+    );
+  }
+
+  // Record a declined attempt so the backend can track failures per order
+  static reportPaymentFailure(
+    bookingId: string,
+    failure: PaymentFailure,
+    attempt: number
+  ): Promise<ApiResult<unknown>> {
+    return this.request(
+      this.url(
+        `${config.endpoints.bookings}/${bookingId}${config.endpoints.payment.failure}`
+      ),
+      {
+        method: "POST",
+        body: JSON.stringify({
+          razorpay_payment_id: failure.paymentId,
+          razorpay_order_id: failure.orderId,
+          error: {
+            code: failure.code,
+            description: failure.description,
+            reason: failure.reason,
+            source: failure.source,
+            step: failure.step,
+          },
+          attempt,
+        }),
+        authenticated: true,
+      }
+    );
+  }
+
+  // AI assistant
+
+  static askAssistant(question: string): Promise<ApiResult<string>> {
+    return this.request(this.url(config.endpoints.assistant), {
+      method: "POST",
+      body: JSON.stringify({ question }),
+      authenticated: true,
+      schema: assistantAnswerSchema,
+    });
+  }
+
+  // Vendor portal
+
+  static getVendorHotel(): Promise<ApiResult<Hotel>> {
+    return this.request(this.url(`${config.endpoints.vendor}/hotel`), {
+      authenticated: true,
+      schema: hotelSchema,
+    });
+  }
+
+  static listVendorRooms(): Promise<ApiResult<{ rooms: HotelRoom[] }>> {
+    return this.request(this.url(`${config.endpoints.vendor}/rooms`), {
+      authenticated: true,
+      schema: vendorRoomsSchema,
+    });
+  }
+
+  static getVendorRoom(roomId: string): Promise<ApiResult<HotelRoom>> {
+    return this.request(
+      this.url(`${config.endpoints.vendor}/rooms/${roomId}`),
+      {
+        authenticated: true,
+        schema: hotelRoomSchema,
+      }
+    );
+  }
+
+  static createVendorRoom(room: RoomInput): Promise<ApiResult<HotelRoom>> {
+    return this.request(this.url(`${config.endpoints.vendor}/rooms`), {
+      method: "POST",
+      body: JSON.stringify(room),
+      authenticated: true,
+      schema: hotelRoomSchema,
+    });
+  }
+
+  // Partial update; deactivating a room is an update with isAvailable: false
+  static updateVendorRoom(
+    roomId: string,
+    changes: Partial<RoomInput>
+  ): Promise<ApiResult<HotelRoom>> {
+    return this.request(
+      this.url(`${config.endpoints.vendor}/rooms/${roomId}`),
+      {
+        method: "PATCH",
+        body: JSON.stringify(changes),
+        authenticated: true,
+        schema: hotelRoomSchema,
+      }
+    );
+  }
+
+  // Bookings and blocks for a room overlapping [from, to)
+  static getRoomCalendar(
+    roomId: string,
+    from: string,
+    to: string
+  ): Promise<ApiResult<RoomCalendar>> {
+    const query = new URLSearchParams({ from, to });
+    return this.request(
+      this.url(`${config.endpoints.vendor}/rooms/${roomId}/calendar`, query),
+      {
+        authenticated: true,
+        schema: roomCalendarSchema,
+      }
+    );
+  }
+
+  static createRoomBlock(
+    roomId: string,
+    block: RoomBlockRequest
+  ): Promise<ApiResult<RoomBlock>> {
+    return this.request(
+      this.url(`${config.endpoints.vendor}/rooms/${roomId}/blocks`),
+      {
+        method: "POST",
+        body: JSON.stringify(block),
+        authenticated: true,
+        schema: roomBlockSchema,
+      }
+    );
+  }
+
+  static deleteRoomBlock(
+    roomId: string,
+    blockId: string
+  ): Promise<ApiResult<unknown>> {
+    return this.request(
+      this.url(`${config.endpoints.vendor}/rooms/${roomId}/blocks/${blockId}`),
+      {
+        method: "DELETE",
+        authenticated: true,
+      }
+    );
+  }
+
+  static updateVendorBookingStatus(
+    bookingId: string,
+    status: VendorBookingAction
+  ): Promise<ApiResult<VendorBooking>> {
+    return this.request(
+      this.url(`${config.endpoints.vendor}/bookings/${bookingId}/status`),
+      {
+        method: "PATCH",
+        body: JSON.stringify({ status }),
+        authenticated: true,
+        schema: vendorBookingSchema,
+      }
+    );
+  }
+
+  static listVendorBookings(params: VendorBookingsParams): Promise<
+    ApiResult<{
+      bookings: VendorBooking[];
+      pagination: Pagination;
+    }>
+  > {
+    const query = new URLSearchParams({
+      page: params.page.toString(),
+      limit: params.limit.toString(),
+      ...(params.status && { status: params.status }),
+    });
+
+    return this.request(
+      this.url(`${config.endpoints.vendor}/bookings`, query),
+      {
+        authenticated: true,
+        schema: vendorBookingsSchema,
+      }
+    );
+  }
+}
+
+export default ApiClient;
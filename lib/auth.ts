@@ -1,9 +1,15 @@
 // Authentication utilities
 
+import config from "./config";
+
+export const USER_ROLES = ["CUSTOMER", "VENDOR", "ADMIN"] as const;
+
+export type UserRole = (typeof USER_ROLES)[number];
+
 export interface User {
   id: string;
   phoneNumber: string;
-  role: string;
+  role: UserRole;
   isActive: boolean;
 }
 
@@ -12,24 +18,135 @@ export interface AuthTokens {
   refreshToken: string;
 }
 
+// Thrown when a request cannot be authenticated (missing or unrefreshable token)
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
 export class AuthService {
-  private static readonly ACCESS_TOKEN_KEY = "accessToken";
+  static readonly ACCESS_TOKEN_KEY = "accessToken";
   private static readonly REFRESH_TOKEN_KEY = "refreshToken";
-  private static readonly USER_KEY = "user";
+  static readonly USER_KEY = "user";
   private static readonly RETURN_URL_KEY = "returnUrl";
+  private static readonly REFRESH_LOCK_KEY = "authRefreshLock";
+  private static readonly REFRESH_LOCK_TTL = 10000;
+
+  // Pages a sign-in may return to: hotel search and details, the booking form,
+  // and the customer's bookings
+  private static readonly RETURN_URL_PATTERNS = [
+    /^\/hotels$/,
+    /^\/hotels\/[\w-]+$/,
+    /^\/hotels\/[\w-]+\/book\/[\w-]+$/,
+    /^\/bookings$/,
+    /^\/bookings\/[\w-]+$/,
+    /^\/bookings\/[\w-]+\/modify$/,
+    /^\/bookings\/[\w-]+\/receipt$/,
+    /^\/vendor(\/[\w-]+)*$/,
+  ];
+
+  // Identifies this tab when coordinating token refresh with other tabs
+  private static readonly tabId = Math.random().toString(36).slice(2);
+
+  // Shared by every caller while a refresh is in flight
+  private static refreshPromise: Promise<string | null> | null = null;
+  private static cookieRefreshPromise: Promise<boolean> | null = null;
+
+  // In cookie mode tokens live in httpOnly cookies and only the user is stored locally
+  static usesCookieSession(): boolean {
+    return config.auth.storageMode === "cookie";
+  }
+
+  // Return the URL as a same-origin relative path if it is an allowed return
+  // target, otherwise null. The query string (e.g. checkIn/checkOut/guests) is kept as is.
+  static sanitizeReturnUrl(url: string | null | undefined): string | null {
+    // Reject protocol-relative and backslash forms browsers treat as absolute
+    if (
+      !url ||
+      !url.startsWith("/") ||
+      url.startsWith("//") ||
+      /[\\\s]/.test(url)
+    ) {
+      return null;
+    }
+
+    const origin =
+      typeof window === "undefined"
+        ? "http://localhost"
+        : window.location.origin;
+
+    let parsed: URL;
+    try {
+      parsed = new URL(url, origin);
+    } catch {
+      return null;
+    }
+
+    if (parsed.origin !== origin) return null;
+    if (
+      !this.RETURN_URL_PATTERNS.some((pattern) => pattern.test(parsed.pathname))
+    ) {
+      return null;
+    }
+
+    return parsed.pathname + parsed.search + parsed.hash;
+  }
 
   // Store return URL for post-authentication redirect
+  // Disallowed URLs are dropped; stored URLs expire after config.auth.returnUrlTtlSeconds
   static setReturnUrl(url: string): void {
     if (typeof window === "undefined") return;
-    localStorage.setItem(this.RETURN_URL_KEY, url);
+
+    const safeUrl = this.sanitizeReturnUrl(url);
+    if (!safeUrl) {
+      localStorage.removeItem(this.RETURN_URL_KEY);
+      return;
+    }
+
+    localStorage.setItem(
+      this.RETURN_URL_KEY,
+      JSON.stringify({
+        url: safeUrl,
+        expiresAt: Date.now() + config.auth.returnUrlTtlSeconds * 1000,
+      })
+    );
   }
 
   // Get and clear return URL
   static getAndClearReturnUrl(): string | null {
     if (typeof window === "undefined") return null;
-    const url = localStorage.getItem(this.RETURN_URL_KEY);
+    const raw = localStorage.getItem(this.RETURN_URL_KEY);
     localStorage.removeItem(this.RETURN_URL_KEY);
-    return url;
+    if (!raw) return null;
+
+    try {
+      const stored = JSON.parse(raw) as { url?: string; expiresAt?: number };
+      if (
+        typeof stored.expiresAt !== "number" ||
+        stored.expiresAt < Date.now()
+      ) {
+        return null;
+      }
+      return this.sanitizeReturnUrl(stored.url);
+    } catch {
+      return null;
+    }
+  }
+
+  // Where to go after sign-in: the returnUrl query param if allowed, then the
+  // stored return URL, then the user's home route. The stored URL is always consumed.
+  static resolveReturnUrl(
+    returnUrlParam: string | null,
+    user: User | null
+  ): string {
+    const storedUrl = this.getAndClearReturnUrl();
+    return (
+      this.sanitizeReturnUrl(returnUrlParam) ||
+      storedUrl ||
+      this.getHomeRoute(user)
+    );
   }
 
   // Clear return URL
@@ -38,10 +155,30 @@ export class AuthService {
     localStorage.removeItem(this.RETURN_URL_KEY);
   }
 
+  // Sign-in page URL that returns to the given path afterwards
+  static getSignInUrl(returnUrl: string): string {
+    const safeUrl = this.sanitizeReturnUrl(returnUrl);
+    return safeUrl ? `/auth?returnUrl=${encodeURIComponent(safeUrl)}` : "/auth";
+  }
+
+  // Role guard: true if the user has one of the given roles
+  static hasRole(user: User | null, ...roles: UserRole[]): boolean {
+    return !!user && roles.includes(user.role);
+  }
+
+  // Landing page for a signed-in user when there is no return URL
+  static getHomeRoute(user: User | null): string {
+    return this.hasRole(user, "VENDOR") ? "/vendor" : "/";
+  }
+
   // Check if user is authenticated
   static isAuthenticated(): boolean {
     if (typeof window === "undefined") return false;
 
+    if (this.usesCookieSession()) {
+      return !!localStorage.getItem(this.USER_KEY);
+    }
+
     const accessToken = localStorage.getItem(this.ACCESS_TOKEN_KEY);
     return !!accessToken;
   }
@@ -73,11 +210,14 @@ export class AuthService {
   }
 
   // Store authentication data
-  static setAuthData(tokens: AuthTokens, user: User): void {
+  // tokens is null in cookie mode, where the route handler has already set the cookies
+  static setAuthData(tokens: AuthTokens | null, user: User): void {
     if (typeof window === "undefined") return;
 
-    localStorage.setItem(this.ACCESS_TOKEN_KEY, tokens.accessToken);
-    localStorage.setItem(this.REFRESH_TOKEN_KEY, tokens.refreshToken);
+    if (tokens && !this.usesCookieSession()) {
+      localStorage.setItem(this.ACCESS_TOKEN_KEY, tokens.accessToken);
+      localStorage.setItem(this.REFRESH_TOKEN_KEY, tokens.refreshToken);
+    }
     localStorage.setItem(this.USER_KEY, JSON.stringify(user));
   }
 
@@ -89,21 +229,85 @@ export class AuthService {
     localStorage.removeItem(this.REFRESH_TOKEN_KEY);
     localStorage.removeItem(this.USER_KEY);
     localStorage.removeItem(this.RETURN_URL_KEY);
+
+    if (this.usesCookieSession()) {
+      fetch("/api/auth/logout", { method: "POST" }).catch((error) =>
+        console.error("Error clearing session cookies:", error)
+      );
+    }
   }
 
-  // Check if token is expired (basic check based on JWT structure)
-  static isTokenExpired(token: string): boolean {
+  // Decode the JWT payload without verifying it
+  static decodeToken(token: string): { exp?: number; iat?: number } | null {
     try {
-      const payload = JSON.parse(atob(token.split(".")[1]));
-      const currentTime = Math.floor(Date.now() / 1000);
-      return payload.exp < currentTime;
+      const payload = token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/");
+      return JSON.parse(atob(payload));
     } catch {
-      return true;
+      return null;
     }
   }
 
+  // The access token's exp and iat in cookie mode, read from the expiry cookie
+  // the /api/auth route handlers set next to the httpOnly tokens
+  static getCookieSessionClaims(): { exp?: number; iat?: number } | null {
+    if (typeof document === "undefined") return null;
+
+    const prefix = `${config.auth.cookies.sessionExpiry}=`;
+    const value = document.cookie
+      .split("; ")
+      .find((cookie) => cookie.startsWith(prefix))
+      ?.slice(prefix.length);
+    if (!value) return null;
+
+    const [exp, iat] = decodeURIComponent(value).split(":").map(Number);
+    if (!Number.isFinite(exp)) return null;
+    return { exp, iat: Number.isFinite(iat) ? iat : undefined };
+  }
+
+  // Check if token is expired (basic check based on JWT structure)
+  static isTokenExpired(token: string): boolean {
+    const payload = this.decodeToken(token);
+    if (!payload) return true;
+    if (typeof payload.exp !== "number") return false;
+    const currentTime = Math.floor(Date.now() / 1000);
+    return payload.exp < currentTime;
+  }
+
   // Refresh access token
-  static async refreshAccessToken(): Promise<string | null> {
+  // Concurrent callers share one in-flight refresh, and only one tab refreshes at a time
+  static refreshAccessToken(): Promise<string | null> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.coordinateRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private static async coordinateRefresh(): Promise<string | null> {
+    if (typeof window === "undefined") return null;
+
+    const staleToken = this.getAccessToken();
+
+    // Another tab is already refreshing: wait for it to publish the new token
+    if (this.isRefreshLockedByOtherTab()) {
+      const token = await this.waitForOtherTabRefresh(staleToken);
+      if (token) return token;
+    }
+
+    if (!this.acquireRefreshLock()) {
+      const token = await this.waitForOtherTabRefresh(staleToken);
+      if (token) return token;
+    }
+
+    try {
+      return await this.requestTokenRefresh();
+    } finally {
+      this.releaseRefreshLock();
+    }
+  }
+
+  private static async requestTokenRefresh(): Promise<string | null> {
     const refreshToken = this.getRefreshToken();
     if (!refreshToken) return null;
 
@@ -121,6 +325,11 @@ export class AuthService {
 
       if (response.ok) {
         const data = await response.json();
+        // Store the rotated refresh token first so other tabs never pair a new
+        // access token with a refresh token the backend has already revoked
+        if (data.refreshToken) {
+          localStorage.setItem(this.REFRESH_TOKEN_KEY, data.refreshToken);
+        }
         localStorage.setItem(this.ACCESS_TOKEN_KEY, data.accessToken);
         return data.accessToken;
       }
@@ -131,15 +340,141 @@ export class AuthService {
     return null;
   }
 
+  private static readRefreshLock(): {
+    owner: string;
+    expiresAt: number;
+  } | null {
+    try {
+      const lock = localStorage.getItem(this.REFRESH_LOCK_KEY);
+      return lock ? JSON.parse(lock) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private static isRefreshLockedByOtherTab(): boolean {
+    const lock = this.readRefreshLock();
+    return !!lock && lock.owner !== this.tabId && lock.expiresAt > Date.now();
+  }
+
+  // Write the lock and read it back; another tab may have written in between
+  private static acquireRefreshLock(): boolean {
+    if (this.isRefreshLockedByOtherTab()) return false;
+
+    localStorage.setItem(
+      this.REFRESH_LOCK_KEY,
+      JSON.stringify({
+        owner: this.tabId,
+        expiresAt: Date.now() + this.REFRESH_LOCK_TTL,
+      })
+    );
+    return this.readRefreshLock()?.owner === this.tabId;
+  }
+
+  private static releaseRefreshLock(): void {
+    if (this.readRefreshLock()?.owner === this.tabId) {
+      localStorage.removeItem(this.REFRESH_LOCK_KEY);
+    }
+  }
+
+  // Resolve with the token another tab stores, or null if it gives up or the lock expires
+  private static waitForOtherTabRefresh(
+    staleToken: string | null
+  ): Promise<string | null> {
+    return new Promise((resolve) => {
+      const lock = this.readRefreshLock();
+      const timeout = lock
+        ? Math.max(lock.expiresAt - Date.now(), 0)
+        : this.REFRESH_LOCK_TTL;
+
+      const finish = (token: string | null) => {
+        window.removeEventListener("storage", handleStorage);
+        clearTimeout(timer);
+        resolve(token);
+      };
+
+      const handleStorage = (event: StorageEvent) => {
+        if (
+          event.key === this.ACCESS_TOKEN_KEY &&
+          event.newValue &&
+          event.newValue !== staleToken
+        ) {
+          finish(event.newValue);
+        } else if (event.key === this.REFRESH_LOCK_KEY && !event.newValue) {
+          const token = this.getAccessToken();
+          finish(token && token !== staleToken ? token : null);
+        }
+      };
+
+      window.addEventListener("storage", handleStorage);
+      const timer = setTimeout(() => finish(null), timeout);
+    });
+  }
+
+  // Refresh the cookie session through the route handler (single-flight)
+  static refreshCookieSession(): Promise<boolean> {
+    if (!this.cookieRefreshPromise) {
+      this.cookieRefreshPromise = fetch("/api/auth/refresh", { method: "POST" })
+        .then((response) => response.ok)
+        .catch((error) => {
+          console.error("Error refreshing session:", error);
+          return false;
+        })
+        .finally(() => {
+          this.cookieRefreshPromise = null;
+        });
+    }
+    return this.cookieRefreshPromise;
+  }
+
+  // Send the request through the same-origin proxy, which adds the token from the cookie
+  private static async cookieSessionFetch(
+    url: string,
+    options: RequestInit
+  ): Promise<Response> {
+    const proxyUrl = url.startsWith(config.backendUrl)
+      ? config.auth.proxyPath + url.slice(config.backendUrl.length)
+      : url;
+
+    const send = () =>
+      fetch(proxyUrl, {
+        ...options,
+        credentials: "same-origin",
+        headers: {
+          "Content-Type": "application/json",
+          ...options.headers,
+        },
+      });
+
+    const response = await send();
+    if (response.status !== 401) {
+      return response;
+    }
+
+    if (await this.refreshCookieSession()) {
+      return send();
+    }
+
+    this.clearAuthData();
+    // Store current URL as return URL before redirecting
+    this.setReturnUrl(window.location.pathname + window.location.search);
+    window.location.href = "/auth";
+    throw new AuthError("Authentication failed");
+  }
+
   // Make authenticated API request
   static async authenticatedFetch(
     url: string,
     options: RequestInit = {}
   ): Promise<Response> {
+    if (this.usesCookieSession()) {
+      return this.cookieSessionFetch(url, options);
+    }
+
     let accessToken = this.getAccessToken();
 
     if (!accessToken) {
-      throw new Error("No access token available");
+      throw new AuthError("No access token available");
     }
 
     // Check if token is expired and try to refresh
@@ -150,7 +485,7 @@ export class AuthService {
         // Store current URL as return URL before redirecting
         this.setReturnUrl(window.location.pathname + window.location.search);
         window.location.href = "/auth";
-        throw new Error("Unable to refresh token");
+        throw new AuthError("Unable to refresh token");
       }
     }
 
@@ -184,7 +519,7 @@ export class AuthService {
         // Store current URL as return URL before redirecting
         this.setReturnUrl(window.location.pathname + window.location.search);
         window.location.href = "/auth";
-        throw new Error("Authentication failed");
+        throw new AuthError("Authentication failed");
       }
     }
 
@@ -0,0 +1,78 @@
+// Booking attempts
+// One idempotency key per attempt to book a room, kept in sessionStorage so a
+// reload of the same booking form replays the key instead of minting a new one.
+// The backend answers a replayed key with the booking it already created.
+
+export interface BookingAttempt {
+  key: string;
+  // Fingerprint of the submitted form; a different submission starts a new attempt
+  requestHash: string;
+  bookingId?: string;
+}
+
+export class BookingAttempts {
+  private static readonly KEY_PREFIX = "bookingAttempt:";
+
+  static get(scope: string): BookingAttempt | null {
+    if (typeof window === "undefined") return null;
+    try {
+      const raw = sessionStorage.getItem(this.KEY_PREFIX + scope);
+      const attempt = raw ? (JSON.parse(raw) as Partial<BookingAttempt>) : null;
+      return attempt &&
+        typeof attempt.key === "string" &&
+        typeof attempt.requestHash === "string"
+        ? (attempt as BookingAttempt)
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // Reuse the stored attempt for an identical submission, otherwise start a new one
+  static begin(scope: string, request: unknown): BookingAttempt {
+    const requestHash = this.hash(JSON.stringify(request));
+    const existing = this.get(scope);
+    if (existing && existing.requestHash === requestHash) {
+      return existing;
+    }
+
+    const attempt = { key: this.generateKey(), requestHash };
+    this.save(scope, attempt);
+    return attempt;
+  }
+
+  static recordBooking(scope: string, bookingId: string): void {
+    const attempt = this.get(scope);
+    if (attempt) {
+      this.save(scope, { ...attempt, bookingId });
+    }
+  }
+
+  static clear(scope: string): void {
+    if (typeof window === "undefined") return;
+    sessionStorage.removeItem(this.KEY_PREFIX + scope);
+  }
+
+  private static save(scope: string, attempt: BookingAttempt): void {
+    if (typeof window === "undefined") return;
+    sessionStorage.setItem(this.KEY_PREFIX + scope, JSON.stringify(attempt));
+  }
+
+  private static generateKey(): string {
+    if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+      return crypto.randomUUID();
+    }
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+  }
+
+  // Guest details stay out of storage; only this fingerprint is kept
+  private static hash(value: string): string {
+    let hash = 5381;
+    for (let i = 0; i < value.length; i++) {
+      hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+    }
+    return (hash >>> 0).toString(36);
+  }
+}
+
+export default BookingAttempts;
@@ -0,0 +1,77 @@
+// Booking modification
+// Prices a proposed change to dates, room or guest count from the hotel's room
+// rates (lib/pricing.ts) and current availability, so the guest sees the
+// difference before submitting. The backend reprices the change on submit; its
+// figures are the ones charged or refunded.
+
+import type { Hotel, RoomAvailability } from "./api-client";
+import type { Booking } from "./booking-normalizer";
+import { priceStay, RoomRates, StayPrice } from "./pricing";
+
+export interface StayChanges {
+  checkInDate: string;
+  checkOutDate: string;
+  numberOfGuests: number;
+}
+
+export interface RoomOption {
+  roomId: string;
+  roomType: string;
+  roomNumber: string;
+  capacity: number;
+  // The booking's own room; availability searches leave it out while it is held
+  current: boolean;
+  price: StayPrice;
+  // New total minus what was paid; negative when a refund is due
+  difference: number;
+}
+
+export function getAmountPaid(booking: Booking): number {
+  return booking.payment?.totalAmount ?? booking.totalAmount;
+}
+
+// Rooms the booking can move to for the new stay, cheapest first
+export function getRoomOptions(
+  booking: Booking,
+  hotel: Hotel,
+  availableRooms: RoomAvailability[],
+  changes: StayChanges
+): RoomOption[] {
+  const paid = getAmountPaid(booking);
+  const hotelRooms = hotel.rooms || [];
+
+  // Seasonal rates come from the hotel profile; availability only has one rate
+  const ratesFor = (room: RoomAvailability): RoomRates =>
+    hotelRooms.find((hotelRoom) => hotelRoom.id === room.id) || {
+      basePrice: room.pricePerNight,
+    };
+
+  const candidates = availableRooms.map((room) => ({
+    roomId: room.id,
+    roomType: room.roomType,
+    roomNumber: room.roomNumber,
+    capacity: room.capacity,
+    current: room.id === booking.room.id,
+    rates: ratesFor(room),
+  }));
+
+  const currentRoom = hotelRooms.find((room) => room.id === booking.room.id);
+  if (currentRoom && !candidates.some((room) => room.current)) {
+    candidates.unshift({
+      roomId: currentRoom.id,
+      roomType: currentRoom.roomType,
+      roomNumber: currentRoom.roomNumber,
+      capacity: currentRoom.capacity,
+      current: true,
+      rates: currentRoom,
+    });
+  }
+
+  return candidates
+    .filter((room) => room.capacity >= changes.numberOfGuests)
+    .flatMap(({ rates, ...room }) => {
+      const price = priceStay(rates, changes.checkInDate, changes.checkOutDate);
+      return price ? [{ ...room, price, difference: price.total - paid }] : [];
+    })
+    .sort((a, b) => a.price.total - b.price.total);
+}
@@ -0,0 +1,244 @@
+import { describe, expect, it } from "vitest";
+import type {
+  BookingDetails,
+  CustomerBooking,
+  VendorBooking,
+} from "./api-client";
+import { normalizeBooking } from "./booking-normalizer";
+
+describe("normalizeBooking", () => {
+  it("normalizes a customer list row", () => {
+    const row: CustomerBooking = {
+      id: "bk_1",
+      checkInDate: "2026-05-01",
+      checkOutDate: "2026-05-03",
+      numberOfGuests: 2,
+      totalAmount: 5600,
+      status: "CONFIRMED",
+      booking: {
+        id: "bk_1",
+        payment: {
+          paymentStatus: "PAID",
+          paymentMethod: "UPI",
+          razorpayPaymentId: "pay_1",
+          processedAt: "2026-04-20T10:00:00Z",
+        },
+      },
+      hotelProfile: {
+        hotelName: "Lake View",
+        vendor: {
+          businessName: "Lake View Pvt Ltd",
+          businessAddress: "1 Lake Road, Udaipur",
+          contactNumbers: ["9876543210"],
+        },
+      },
+      room: { roomType: "Deluxe", roomNumber: "101" },
+      canCancel: true,
+      createdAt: "2026-04-20T09:00:00Z",
+    };
+
+    expect(normalizeBooking(row)).toEqual({
+      id: "bk_1",
+      reference: undefined,
+      status: "CONFIRMED",
+      checkInDate: "2026-05-01",
+      checkOutDate: "2026-05-03",
+      numberOfGuests: 2,
+      totalAmount: 5600,
+      createdAt: "2026-04-20T09:00:00Z",
+      specialRequests: undefined,
+      hotel: {
+        id: undefined,
+        name: "Lake View",
+        category: undefined,
+        address: "1 Lake Road, Udaipur",
+        contactNumbers: ["9876543210"],
+      },
+      room: {
+        id: undefined,
+        type: "Deluxe",
+        number: "101",
+        capacity: undefined,
+        amenities: [],
+      },
+      vendor: {
+        businessName: "Lake View Pvt Ltd",
+        contactNumbers: ["9876543210"],
+      },
+      payment: {
+        status: "PAID",
+        method: "UPI",
+        razorpayPaymentId: "pay_1",
+        razorpayOrderId: undefined,
+        processedAt: "2026-04-20T10:00:00Z",
+        totalAmount: undefined,
+        taxes: undefined,
+        discount: undefined,
+        invoice: undefined,
+      },
+      guests: [],
+      customer: undefined,
+      canCancel: true,
+      canModify: false,
+      cancellationTiers: undefined,
+      refund: undefined,
+      holdExpiresAt: undefined,
+    });
+  });
+
+  it("normalizes booking details, taking the id from the route", () => {
+    const details: BookingDetails = {
+      bookingRef: "SJ-1001",
+      status: "pending",
+      checkInDate: "2026-06-10",
+      checkOutDate: "2026-06-12",
+      numberOfGuests: 1,
+      totalAmount: 3360,
+      createdAt: "2026-06-01T08:00:00Z",
+      guests: [{ firstName: "Asha", lastName: "Rao", isPrimaryGuest: true }],
+      hotel: {
+        id: "htl_1",
+        name: "Hill Top",
+        category: "BOUTIQUE",
+        address: "Mall Road, Shimla",
+        contactNumbers: ["9000000000"],
+      },
+      room: {
+        id: "rm_1",
+        type: "Suite",
+        number: "201",
+        capacity: 2,
+        amenities: ["WiFi"],
+      },
+      customer: {
+        phoneNumber: "9876543211",
+        firstName: "Asha",
+        lastName: "Rao",
+        email: "asha@example.com",
+      },
+      payment: {
+        paymentStatus: "CREATED",
+        paymentMethod: "RAZORPAY",
+        totalAmount: 3360,
+        processedAt: "2026-06-01T08:05:00Z",
+      },
+      vendor: { businessName: "Hill Top Stays", contactNumbers: [] },
+      canModify: true,
+      holdExpiresAt: "2026-06-01T08:20:00Z",
+    };
+
+    const booking = normalizeBooking(details, "route-id");
+
+    expect(booking.id).toBe("route-id");
+    expect(booking.reference).toBe("SJ-1001");
+    expect(booking.status).toBe("PENDING");
+    expect(booking.hotel).toEqual({
+      id: "htl_1",
+      name: "Hill Top",
+      category: "BOUTIQUE",
+      address: "Mall Road, Shimla",
+      contactNumbers: ["9000000000"],
+    });
+    expect(booking.room).toEqual({
+      id: "rm_1",
+      type: "Suite",
+      number: "201",
+      capacity: 2,
+      amenities: ["WiFi"],
+    });
+    expect(booking.vendor.businessName).toBe("Hill Top Stays");
+    expect(booking.payment?.status).toBe("CREATED");
+    expect(booking.payment?.totalAmount).toBe(3360);
+    expect(booking.guests).toHaveLength(1);
+    expect(booking.customer?.email).toBe("asha@example.com");
+    expect(booking.canCancel).toBe(false);
+    expect(booking.canModify).toBe(true);
+    expect(booking.holdExpiresAt).toBe("2026-06-01T08:20:00Z");
+  });
+
+  it("normalizes a vendor booking row", () => {
+    const row: VendorBooking = {
+      id: "bk_2",
+      bookingRef: "SJ-2002",
+      status: "CHECKED_IN",
+      checkInDate: "2026-07-01",
+      checkOutDate: "2026-07-04",
+      numberOfGuests: 3,
+      totalAmount: 10080,
+      createdAt: "2026-06-15T12:00:00Z",
+      room: { roomType: "Family", roomNumber: "305" },
+      customer: { firstName: "Ravi", phoneNumber: "9876543212" },
+    };
+
+    const booking = normalizeBooking(row);
+
+    expect(booking.id).toBe("bk_2");
+    expect(booking.reference).toBe("SJ-2002");
+    expect(booking.status).toBe("CHECKED_IN");
+    expect(booking.totalAmount).toBe(10080);
+    expect(booking.room).toEqual({
+      id: undefined,
+      type: "Family",
+      number: "305",
+      capacity: undefined,
+      amenities: [],
+    });
+    expect(booking.customer).toEqual({
+      firstName: "Ravi",
+      phoneNumber: "9876543212",
+    });
+    expect(booking.hotel.name).toBeUndefined();
+    expect(booking.hotel.contactNumbers).toEqual([]);
+    expect(booking.payment).toBeUndefined();
+    expect(booking.guests).toEqual([]);
+  });
+
+  it("takes the id from a legacy bookingId and the payment from the nested booking", () => {
+    const booking = normalizeBooking({
+      bookingId: "legacy_1",
+      booking: {
+        payment: { paymentStatus: "PAID", totalAmount: 4480 },
+      },
+      hotel: { name: "Old Fort", address: "Fort Road, Jaipur" },
+      room: { type: "Standard", number: "12" },
+    });
+
+    expect(booking.id).toBe("legacy_1");
+    expect(booking.totalAmount).toBe(4480);
+    expect(booking.payment?.status).toBe("PAID");
+    expect(booking.hotel.name).toBe("Old Fort");
+    expect(booking.hotel.address).toBe("Fort Road, Jaipur");
+    expect(booking.room.type).toBe("Standard");
+    expect(booking.room.number).toBe("12");
+    expect(booking.status).toBe("");
+    expect(booking.checkInDate).toBe("");
+  });
+
+  it("falls back to a legacy bookingRef for the id", () => {
+    const booking = normalizeBooking({ bookingRef: "SJ-OLD-7" });
+
+    expect(booking.id).toBe("SJ-OLD-7");
+    expect(booking.reference).toBe("SJ-OLD-7");
+  });
+
+  it("reads the hotel from a legacy hotelProfile", () => {
+    const booking = normalizeBooking({
+      booking: { bookingId: "legacy_2" },
+      hotelProfile: {
+        vendor: {
+          businessName: "Palm Grove Resorts",
+          businessAddress: "Beach Road, Goa",
+        },
+      },
+    });
+
+    expect(booking.id).toBe("legacy_2");
+    expect(booking.hotel.name).toBe("Palm Grove Resorts");
+    expect(booking.hotel.address).toBe("Beach Road, Goa");
+    expect(booking.vendor.businessName).toBe("Palm Grove Resorts");
+  });
+
+  it("uses the fallback id when the payload has none", () => {
+    expect(normalizeBooking({}, "from-route").id).toBe("from-route");
+  });
+});
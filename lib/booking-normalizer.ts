@@ -0,0 +1,244 @@
+// Booking normalization
+// Maps every booking payload variant the backend has returned into one Booking model
+
+import type {
+  BookingDetails,
+  BookingRefund,
+  CancellationTier,
+  CustomerBooking,
+  GuestDetails,
+  PaymentDiscount,
+  PaymentInvoice,
+  PaymentTaxes,
+  VendorBooking,
+} from "./api-client";
+
+// Booking payloads seen from older API versions
+export interface LegacyBooking {
+  bookingId?: string;
+  bookingRef?: string;
+  booking?: {
+    id?: string;
+    bookingId?: string;
+    payment?: BookingPaymentPayload;
+  };
+  hotel?: { name?: string; address?: string };
+  vendor?: { businessName?: string };
+  room?: {
+    type?: string;
+    roomType?: string;
+    number?: string;
+    roomNumber?: string;
+  };
+  payment?: BookingPaymentPayload;
+  hotelProfile?: {
+    hotelName?: string;
+    vendor?: { businessName?: string; businessAddress?: string };
+  };
+}
+
+interface BookingPaymentPayload {
+  paymentStatus?: string;
+  paymentMethod?: string;
+  razorpayPaymentId?: string;
+  razorpayOrderId?: string;
+  processedAt?: string;
+  totalAmount?: number;
+  taxes?: PaymentTaxes;
+  discount?: PaymentDiscount;
+  invoice?: PaymentInvoice;
+}
+
+// Superset of every field any booking variant may carry
+interface BookingPayload {
+  id?: string;
+  bookingId?: string;
+  bookingRef?: string;
+  status?: string;
+  checkInDate?: string;
+  checkOutDate?: string;
+  numberOfGuests?: number;
+  totalAmount?: number;
+  createdAt?: string;
+  specialRequests?: string;
+  booking?: {
+    id?: string;
+    bookingId?: string;
+    payment?: BookingPaymentPayload;
+  };
+  payment?: BookingPaymentPayload;
+  hotel?: {
+    id?: string;
+    name?: string;
+    category?: string;
+    address?: string;
+    contactNumbers?: string[];
+  };
+  hotelProfile?: {
+    hotelName?: string;
+    vendor?: {
+      businessName?: string;
+      businessAddress?: string;
+      contactNumbers?: string[];
+    };
+  };
+  vendor?: {
+    businessName?: string;
+    contactNumbers?: string[];
+  };
+  room?: {
+    id?: string;
+    type?: string;
+    roomType?: string;
+    number?: string;
+    roomNumber?: string;
+    capacity?: number;
+    amenities?: string[];
+  };
+  guests?: GuestDetails[];
+  customer?: BookingCustomer;
+  canCancel?: boolean;
+  canModify?: boolean;
+  cancellationTiers?: CancellationTier[];
+  refund?: BookingRefund;
+  holdExpiresAt?: string;
+}
+
+// Vendor rows carry a partial customer record
+export type BookingCustomer = Partial<BookingDetails["customer"]>;
+
+export interface BookingPayment {
+  status?: string;
+  method?: string;
+  razorpayPaymentId?: string;
+  razorpayOrderId?: string;
+  processedAt?: string;
+  totalAmount?: number;
+  taxes?: PaymentTaxes;
+  discount?: PaymentDiscount;
+  invoice?: PaymentInvoice;
+}
+
+// Canonical booking used by the bookings list and details pages
+export interface Booking {
+  id: string;
+  reference?: string;
+  status: string;
+  checkInDate: string;
+  checkOutDate: string;
+  numberOfGuests: number;
+  totalAmount: number;
+  createdAt?: string;
+  specialRequests?: string;
+  hotel: {
+    id?: string;
+    name?: string;
+    category?: string;
+    address?: string;
+    contactNumbers: string[];
+  };
+  room: {
+    id?: string;
+    type?: string;
+    number?: string;
+    capacity?: number;
+    amenities: string[];
+  };
+  vendor: {
+    businessName?: string;
+    contactNumbers: string[];
+  };
+  payment?: BookingPayment;
+  guests: GuestDetails[];
+  customer?: BookingCustomer;
+  canCancel: boolean;
+  canModify: boolean;
+  // The hotel's policy when the backend sends one with the booking
+  cancellationTiers?: CancellationTier[];
+  refund?: BookingRefund;
+  holdExpiresAt?: string;
+}
+
+function normalizePayment(
+  payment: BookingPaymentPayload | undefined
+): BookingPayment | undefined {
+  if (!payment) return undefined;
+  return {
+    status: payment.paymentStatus,
+    method: payment.paymentMethod,
+    razorpayPaymentId: payment.razorpayPaymentId,
+    razorpayOrderId: payment.razorpayOrderId,
+    processedAt: payment.processedAt,
+    totalAmount: payment.totalAmount,
+    taxes: payment.taxes,
+    discount: payment.discount,
+    invoice: payment.invoice,
+  };
+}
+
+// Normalize a booking from the customer list, the details endpoint, the vendor list
+// or a legacy payload. fallbackId is used when the payload carries no id (e.g.
+// the route param); the booking reference is the id only when there is neither.
+export function normalizeBooking(
+  raw: CustomerBooking | BookingDetails | VendorBooking | LegacyBooking,
+  fallbackId = ""
+): Booking {
+  const booking = raw as BookingPayload;
+  const payment = normalizePayment(booking.booking?.payment || booking.payment);
+
+  return {
+    id:
+      booking.id ??
+      booking.bookingId ??
+      booking.booking?.id ??
+      booking.booking?.bookingId ??
+      (fallbackId || booking.bookingRef || ""),
+    reference: booking.bookingRef,
+    status: (booking.status || "").toUpperCase(),
+    checkInDate: booking.checkInDate || "",
+    checkOutDate: booking.checkOutDate || "",
+    numberOfGuests: booking.numberOfGuests ?? 0,
+    totalAmount: booking.totalAmount ?? payment?.totalAmount ?? 0,
+    createdAt: booking.createdAt,
+    specialRequests: booking.specialRequests,
+    hotel: {
+      id: booking.hotel?.id,
+      name:
+        booking.hotel?.name ||
+        booking.hotelProfile?.hotelName ||
+        booking.vendor?.businessName ||
+        booking.hotelProfile?.vendor?.businessName,
+      category: booking.hotel?.category,
+      address:
+        booking.hotel?.address || booking.hotelProfile?.vendor?.businessAddress,
+      contactNumbers:
+        booking.hotel?.contactNumbers ||
+        booking.hotelProfile?.vendor?.contactNumbers ||
+        [],
+    },
+    room: {
+      id: booking.room?.id,
+      type: booking.room?.roomType || booking.room?.type,
+      number: booking.room?.roomNumber || booking.room?.number,
+      capacity: booking.room?.capacity,
+      amenities: booking.room?.amenities || [],
+    },
+    vendor: {
+      businessName:
+        booking.vendor?.businessName ||
+        booking.hotelProfile?.vendor?.businessName,
+      contactNumbers:
+        booking.vendor?.contactNumbers ||
+        booking.hotelProfile?.vendor?.contactNumbers ||
+        [],
+    },
+    payment,
+    guests: booking.guests || [],
+    customer: booking.customer,
+    canCancel: booking.canCancel ?? false,
+    canModify: booking.canModify ?? false,
+    cancellationTiers: booking.cancellationTiers,
+    refund: booking.refund,
+    holdExpiresAt: booking.holdExpiresAt,
+  };
+}
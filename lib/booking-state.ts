@@ -0,0 +1,188 @@
+// Booking state machine
+// Legal status transitions, display metadata and the actions each role may take
+
+import config from "./config";
+import type { BookingStatus } from "./api-client";
+import type { UserRole } from "./auth";
+import { toDateKey, toDayKey } from "./dates";
+
+export type BookingEvent =
+  | "START_PAYMENT"
+  | "PAYMENT_SUCCEEDED"
+  | "PAYMENT_FAILED"
+  | "CANCEL"
+  | "MODIFY"
+  | "CHECK_IN"
+  | "COMPLETE"
+  | "NO_SHOW";
+
+export type BookingAction =
+  "PAY" | "CANCEL" | "MODIFY" | "CHECK_IN" | "COMPLETE" | "NO_SHOW";
+
+export interface BookingStatusMeta {
+  label: string;
+  description: string;
+  // Tailwind classes for the status badge
+  badgeClass: string;
+}
+
+// Fields the action guards look at; satisfied by Booking and CustomerBooking
+export interface BookingActionSubject {
+  status: string;
+  checkInDate: string;
+  canCancel?: boolean;
+  canModify?: boolean;
+}
+
+export class BookingTransitionError extends Error {
+  readonly from: string;
+  readonly event: BookingEvent;
+
+  constructor(from: string, event: BookingEvent) {
+    super(`Cannot ${event} a booking that is ${from}`);
+    this.name = "BookingTransitionError";
+    this.from = from;
+    this.event = event;
+  }
+}
+
+export const BOOKING_STATUSES = Object.keys(
+  config.bookingStatuses
+) as BookingStatus[];
+
+// Statuses missing from an entry have no outgoing transition for that event.
+// PENDING keeps the room held, so reopening checkout or a failed payment stays PENDING.
+// A modified booking stays CONFIRMED; any balance is collected against it.
+const TRANSITIONS: Record<
+  BookingStatus,
+  Partial<Record<BookingEvent, BookingStatus>>
+> = {
+  DRAFT: { START_PAYMENT: "PENDING", CANCEL: "CANCELLED" },
+  PENDING: {
+    START_PAYMENT: "PENDING",
+    PAYMENT_SUCCEEDED: "CONFIRMED",
+    PAYMENT_FAILED: "PENDING",
+    CANCEL: "CANCELLED",
+  },
+  CONFIRMED: {
+    CHECK_IN: "CHECKED_IN",
+    COMPLETE: "COMPLETED",
+    NO_SHOW: "NO_SHOW",
+    CANCEL: "CANCELLED",
+    MODIFY: "CONFIRMED",
+  },
+  CHECKED_IN: { COMPLETE: "COMPLETED" },
+  CANCELLED: {},
+  COMPLETED: {},
+  NO_SHOW: {},
+};
+
+const STATUS_DISPLAY: Record<
+  BookingStatus,
+  Omit<BookingStatusMeta, "description">
+> = {
+  DRAFT: { label: "Draft", badgeClass: "bg-gray-100 text-gray-800" },
+  PENDING: {
+    label: "Payment Pending",
+    badgeClass: "bg-yellow-100 text-yellow-800",
+  },
+  CONFIRMED: { label: "Confirmed", badgeClass: "bg-green-100 text-green-800" },
+  CHECKED_IN: {
+    label: "Checked In",
+    badgeClass: "bg-indigo-100 text-indigo-800",
+  },
+  CANCELLED: { label: "Cancelled", badgeClass: "bg-red-100 text-red-800" },
+  COMPLETED: { label: "Completed", badgeClass: "bg-blue-100 text-blue-800" },
+  NO_SHOW: { label: "No-show", badgeClass: "bg-orange-100 text-orange-800" },
+};
+
+const ACTION_EVENTS: Record<BookingAction, BookingEvent> = {
+  PAY: "START_PAYMENT",
+  CANCEL: "CANCEL",
+  MODIFY: "MODIFY",
+  CHECK_IN: "CHECK_IN",
+  COMPLETE: "COMPLETE",
+  NO_SHOW: "NO_SHOW",
+};
+
+const ROLE_ACTIONS: Record<UserRole, BookingAction[]> = {
+  CUSTOMER: ["PAY", "CANCEL", "MODIFY"],
+  VENDOR: ["CHECK_IN", "COMPLETE", "NO_SHOW"],
+  ADMIN: ["CANCEL", "CHECK_IN", "COMPLETE", "NO_SHOW"],
+};
+
+export function isBookingStatus(status: string): status is BookingStatus {
+  return status in TRANSITIONS;
+}
+
+export function canTransition(status: string, event: BookingEvent): boolean {
+  return isBookingStatus(status) && TRANSITIONS[status][event] !== undefined;
+}
+
+// Next status for an event; throws BookingTransitionError for illegal moves
+export function transition(status: string, event: BookingEvent): BookingStatus {
+  const next = isBookingStatus(status) ? TRANSITIONS[status][event] : undefined;
+  if (!next) {
+    throw new BookingTransitionError(status, event);
+  }
+  return next;
+}
+
+export function isTerminalStatus(status: string): boolean {
+  return (
+    isBookingStatus(status) && Object.keys(TRANSITIONS[status]).length === 0
+  );
+}
+
+// Unknown statuses from newer backends fall back to a neutral badge
+export function getStatusMeta(status: string): BookingStatusMeta {
+  if (!isBookingStatus(status)) {
+    return {
+      label: status || "Unknown",
+      description: "",
+      badgeClass: "bg-gray-100 text-gray-800",
+    };
+  }
+  return {
+    ...STATUS_DISPLAY[status],
+    description: config.bookingStatuses[status],
+  };
+}
+
+// Actions the role may take now: the transition must be legal and the
+// booking's dates and flags must permit it
+export function getAllowedActions(
+  booking: BookingActionSubject,
+  role: UserRole,
+  now: Date = new Date()
+): BookingAction[] {
+  const today = toDateKey(now);
+  const checkInDay = toDayKey(booking.checkInDate);
+
+  return ROLE_ACTIONS[role].filter((action) => {
+    if (!canTransition(booking.status, ACTION_EVENTS[action])) return false;
+
+    switch (action) {
+      case "CANCEL":
+        return (
+          role === "ADMIN" ||
+          (!!booking.canCancel && new Date(booking.checkInDate) > now)
+        );
+      case "MODIFY":
+        return !!booking.canModify && new Date(booking.checkInDate) > now;
+      case "CHECK_IN":
+      case "NO_SHOW":
+        return checkInDay <= today;
+      default:
+        return true;
+    }
+  });
+}
+
+export function canPerform(
+  booking: BookingActionSubject,
+  role: UserRole,
+  action: BookingAction
+): boolean {
+  return getAllowedActions(booking, role).includes(action);
+}
@@ -0,0 +1,87 @@
+// Cancellation policy
+// Refund tiers keyed by how many days before check-in a booking is cancelled.
+// The preview here is what the guest is shown before confirming; the backend
+// applies the same policy and its refund is the one issued.
+
+import config from "./config";
+import type { CancellationTier } from "./api-client";
+import type { Booking } from "./booking-normalizer";
+import { toDateKey, toDayKey } from "./dates";
+
+export const CANCELLATION_REASONS = [
+  "Change of plans",
+  "Found a better price",
+  "Booked by mistake",
+  "Travel restrictions or emergency",
+  "Hotel asked me to cancel",
+  "Other",
+] as const;
+
+export type CancellationReason = (typeof CANCELLATION_REASONS)[number];
+
+export interface RefundPreview {
+  daysBeforeCheckIn: number;
+  // The tier that applies today; null when no tier covers this late a cancellation
+  tier: CancellationTier | null;
+  amountPaid: number;
+  refundAmount: number;
+}
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// Most generous tier first
+export function getPolicyTiers(tiers?: CancellationTier[]): CancellationTier[] {
+  const policy =
+    tiers && tiers.length > 0 ? tiers : config.defaultCancellationTiers;
+  return [...policy].sort((a, b) => b.minDaysBefore - a.minDaysBefore);
+}
+
+// Whole calendar days from today to the check-in day
+export function getDaysBeforeCheckIn(
+  checkInDate: string,
+  now: Date = new Date()
+): number {
+  const checkIn = Date.parse(toDayKey(checkInDate));
+  const today = Date.parse(toDateKey(now));
+  return Math.round((checkIn - today) / MS_PER_DAY);
+}
+
+// "7+ days before check-in: 100% refund"
+export function describeTier(tier: CancellationTier): string {
+  const when =
+    tier.minDaysBefore === 0
+      ? "Up to check-in"
+      : `${tier.minDaysBefore}+ day${tier.minDaysBefore === 1 ? "" : "s"} before check-in`;
+  const refund =
+    tier.refundPercent > 0 ? `${tier.refundPercent}% refund` : "No refund";
+  return `${when}: ${refund}`;
+}
+
+// Only a confirmed booking has been paid for; cancelling an unpaid one refunds nothing
+function getAmountPaid(booking: Booking): number {
+  if (booking.payment?.totalAmount !== undefined) {
+    return booking.payment.totalAmount;
+  }
+  return booking.status === "CONFIRMED" ? booking.totalAmount : 0;
+}
+
+export function getRefundPreview(
+  booking: Booking,
+  now: Date = new Date()
+): RefundPreview {
+  const daysBeforeCheckIn = getDaysBeforeCheckIn(booking.checkInDate, now);
+  const tier =
+    getPolicyTiers(booking.cancellationTiers).find(
+      (candidate) => daysBeforeCheckIn >= candidate.minDaysBefore
+    ) ?? null;
+  const amountPaid = getAmountPaid(booking);
+
+  return {
+    daysBeforeCheckIn,
+    tier,
+    amountPaid,
+    refundAmount: tier
+      ? Math.round((amountPaid * tier.refundPercent) / 100)
+      : 0,
+  };
+}
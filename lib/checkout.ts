@@ -0,0 +1,264 @@
+// Checkout
+// Opens the order's payment provider for a DRAFT or PENDING booking and
+// verifies the payment.
+// A booking's payment order is reused while its room hold lasts, so resuming
+// payment does not create a new order each time the modal is reopened.
+// Declined attempts are reported to the backend, and checkout is closed once the
+// order's retry.max_count is used up or the checkout times out.
+// Given the guest's price quote, checkout only opens when the order charges
+// the quoted amount.
+
+import config from "./config";
+import ApiClient, {
+  ApiError,
+  ApiResult,
+  PriceQuote,
+  VerifiedPayment,
+} from "./api-client";
+import PaymentReconciler from "./payment-reconciler";
+import {
+  getPaymentFailureMessage,
+  isCheckoutTimeout,
+} from "./payment-failures";
+import { getPaymentProvider } from "./payment-provider";
+import { getQuoteMismatch, QuoteMismatch } from "./price-quote";
+import type {
+  GatewayPayment,
+  PaymentBackendData,
+  PaymentFailure,
+} from "./payment-utils";
+
+interface StoredOrder {
+  order: PaymentBackendData;
+  expiresAt: number;
+}
+
+// Fields used to work out how long a booking holds its room
+export interface HoldSubject {
+  id: string;
+  status: string;
+  createdAt?: string;
+  holdExpiresAt?: string;
+}
+
+// A declined attempt, with what to tell the customer
+export interface CheckoutFailure extends PaymentFailure {
+  message: string;
+  attempt: number;
+  // Retries left in this checkout; null when the gateway sets no limit.
+  // At 0 checkout has been closed, after the last retry or a timeout, and a
+  // new order is needed to pay.
+  retriesLeft: number | null;
+}
+
+export interface CheckoutHandlers {
+  // Called with the verification result after the customer pays. A failed
+  // result means the payment is still being retried in the background.
+  onPaymentResult: (result: ApiResult<VerifiedPayment | undefined>) => void;
+  onDismiss?: () => void;
+  // A declined attempt; see retriesLeft for whether checkout is still open
+  onFailure?: (failure: CheckoutFailure) => void;
+}
+
+export type CheckoutStartResult =
+  | { ok: true; order: PaymentBackendData }
+  | { ok: false; reason: "order"; error: ApiError }
+  | { ok: false; reason: "mismatch"; mismatch: QuoteMismatch }
+  | { ok: false; reason: "gateway" };
+
+export class CheckoutService {
+  private static readonly ORDERS_KEY = "paymentOrders";
+
+  // Create the payment order (DRAFT -> PENDING) and open the provider's
+  // checkout. The quote is the total the guest agreed to: the new quote when
+  // booking, or the booking's total when resuming payment for it.
+  static async start(
+    bookingId: string,
+    handlers: CheckoutHandlers,
+    idempotencyKey?: string,
+    quote?: Pick<PriceQuote, "total">
+  ): Promise<CheckoutStartResult> {
+    const orderResult = await this.getPaymentOrder(bookingId, idempotencyKey);
+    if (!orderResult.ok) {
+      return { ok: false, reason: "order", error: orderResult.error };
+    }
+
+    const mismatch = quote ? getQuoteMismatch(quote, orderResult.data) : null;
+    if (mismatch) {
+      // Ask the backend for a fresh order on the next attempt
+      this.forgetOrder(bookingId);
+      return { ok: false, reason: "mismatch", mismatch };
+    }
+    return this.open(bookingId, orderResult.data, handlers);
+  }
+
+  // Open checkout for an order the backend has already issued, e.g. the
+  // balance due after a booking is modified
+  static async open(
+    bookingId: string,
+    order: PaymentBackendData,
+    handlers: CheckoutHandlers
+  ): Promise<CheckoutStartResult> {
+    const maxRetries = this.maxRetries(order);
+    let failures = 0;
+    let closedAfterFailure = false;
+
+    const provider = getPaymentProvider(order);
+    const session = await provider.open(order, bookingId, {
+      // Gateways expect sync callbacks, so verification runs detached
+      onSuccess: (payment) => {
+        void this.verify(bookingId, payment, handlers);
+      },
+      onDismiss: () => {
+        if (!closedAfterFailure) handlers.onDismiss?.();
+      },
+      onFailure: (failure) => {
+        failures += 1;
+        void this.reportFailure(bookingId, failure, failures);
+
+        const retriesLeft = this.retriesLeft(failure, maxRetries, failures);
+        if (retriesLeft === 0) {
+          closedAfterFailure = true;
+          session?.close();
+          // Reopening the same order would reset the gateway's retry count
+          this.forgetOrder(bookingId);
+        }
+
+        handlers.onFailure?.({
+          ...failure,
+          message: getPaymentFailureMessage(failure),
+          attempt: failures,
+          retriesLeft,
+        });
+      },
+    });
+    return session ? { ok: true, order } : { ok: false, reason: "gateway" };
+  }
+
+  // Reuse the stored order while the hold lasts; otherwise ask the backend,
+  // which re-checks availability and re-reserves the room
+  static async getPaymentOrder(
+    bookingId: string,
+    idempotencyKey?: string
+  ): Promise<ApiResult<PaymentBackendData>> {
+    const stored = this.readOrders()[bookingId];
+    if (stored && stored.expiresAt > Date.now()) {
+      return { ok: true, data: stored.order };
+    }
+
+    const result = await ApiClient.createPaymentOrder(
+      bookingId,
+      idempotencyKey
+    );
+    if (result.ok) {
+      this.storeOrder(bookingId, result.data);
+    } else {
+      this.forgetOrder(bookingId);
+    }
+    return result;
+  }
+
+  // When a PENDING booking's room hold lapses: the backend's expiry, else the
+  // stored order's, else the default hold counted from creation
+  static getHoldExpiry(booking: HoldSubject): Date | null {
+    if (booking.status !== "PENDING") return null;
+
+    const fromBackend = booking.holdExpiresAt
+      ? Date.parse(booking.holdExpiresAt)
+      : NaN;
+    if (!Number.isNaN(fromBackend)) return new Date(fromBackend);
+
+    const stored = this.readOrders()[booking.id];
+    if (stored) return new Date(stored.expiresAt);
+
+    const created = booking.createdAt ? Date.parse(booking.createdAt) : NaN;
+    return Number.isNaN(created)
+      ? null
+      : new Date(created + config.paymentHoldMinutes * 60 * 1000);
+  }
+
+  static forgetOrder(bookingId: string): void {
+    const orders = this.readOrders();
+    if (!(bookingId in orders)) return;
+    delete orders[bookingId];
+    this.writeOrders(orders);
+  }
+
+  private static retriesLeft(
+    failure: PaymentFailure,
+    maxRetries: number | null,
+    failures: number
+  ): number | null {
+    if (isCheckoutTimeout(failure)) return 0;
+    return maxRetries === null ? null : Math.max(0, maxRetries + 1 - failures);
+  }
+
+  // Retries the gateway allows after the first attempt; null when unlimited
+  private static maxRetries(order: PaymentBackendData): number | null {
+    if (order.retry?.enabled === false) return 0;
+    const maxCount = order.retry?.max_count;
+    return typeof maxCount === "number" && maxCount >= 0 ? maxCount : null;
+  }
+
+  // Best effort: a lost report must not interrupt the customer's retry
+  private static async reportFailure(
+    bookingId: string,
+    failure: PaymentFailure,
+    attempt: number
+  ): Promise<void> {
+    const result = await ApiClient.reportPaymentFailure(
+      bookingId,
+      failure,
+      attempt
+    );
+    if (!result.ok) {
+      console.error("Failed to report payment failure:", result.error);
+    }
+  }
+
+  private static async verify(
+    bookingId: string,
+    payment: GatewayPayment,
+    handlers: CheckoutHandlers
+  ): Promise<void> {
+    const result = await PaymentReconciler.verify(bookingId, payment);
+    if (result.ok) {
+      this.forgetOrder(bookingId);
+    }
+    handlers.onPaymentResult(result);
+  }
+
+  private static storeOrder(bookingId: string, order: PaymentBackendData) {
+    const parsed = order.holdExpiresAt ? Date.parse(order.holdExpiresAt) : NaN;
+    const expiresAt = Number.isNaN(parsed)
+      ? Date.now() + config.paymentHoldMinutes * 60 * 1000
+      : parsed;
+
+    const now = Date.now();
+    const orders = Object.fromEntries(
+      Object.entries(this.readOrders()).filter(
+        ([, stored]) => stored.expiresAt > now
+      )
+    );
+    orders[bookingId] = { order, expiresAt };
+    this.writeOrders(orders);
+  }
+
+  private static readOrders(): Record<string, StoredOrder> {
+    if (typeof window === "undefined") return {};
+    try {
+      const raw = localStorage.getItem(this.ORDERS_KEY);
+      const orders = raw ? JSON.parse(raw) : {};
+      return orders && typeof orders === "object" ? orders : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private static writeOrders(orders: Record<string, StoredOrder>): void {
+    if (typeof window === "undefined") return;
+    localStorage.setItem(this.ORDERS_KEY, JSON.stringify(orders));
+  }
+}
+
+export default CheckoutService;
@@ -9,12 +9,83 @@ const config = {
     hotels: "/api/hotels",
     auth: "/api/auth",
     bookings: "/api/hotels/bookings",
+    customerBookings: "/api/hotels/customer/bookings",
+    assistant: "/api/hotels/ai",
+    vendor: "/api/hotels/vendor",
     payment: {
       createOrder: "/payment/create-order",
       verify: "/payment/verify",
+      failure: "/payment/failure",
     },
   },
 
+  // Session storage: "local" keeps tokens in localStorage, "cookie" keeps them
+  // in httpOnly cookies set by the /api/auth route handlers
+  auth: {
+    storageMode: (process.env.NEXT_PUBLIC_AUTH_STORAGE_MODE === "cookie"
+      ? "cookie"
+      : "local") as "local" | "cookie",
+    // Same-origin proxy that attaches the cookie session to backend requests
+    proxyPath: "/api/backend",
+    cookies: {
+      accessToken: "sojourn_access_token",
+      refreshToken: "sojourn_refresh_token",
+      // Readable by the page: "exp:iat" of the access token, for SessionManager
+      sessionExpiry: "sojourn_session_expiry",
+    },
+    // Stored post-sign-in return URLs are ignored after this long
+    returnUrlTtlSeconds: 30 * 60,
+  },
+
+  // Proactive session refresh
+  session: {
+    refreshMarginSeconds: 120,
+    retryDelaySeconds: 15,
+    maxClockSkewSeconds: 300,
+  },
+
+  // Room pricing (lib/pricing.ts)
+  pricing: {
+    // Months (1-12) charged at a room's summerPrice; the rest use winterPrice
+    summerMonths: [4, 5, 6, 7, 8, 9],
+    // GST by nightly tariff: the first slab whose upTo covers the rate applies
+    gstSlabs: [
+      { upTo: 1000, ratePercent: 0 },
+      { upTo: 7500, ratePercent: 12 },
+      { upTo: Infinity, ratePercent: 18 },
+    ],
+  },
+
+  // Largest gap, in rupees, allowed between the price quote and the payment
+  // order before payment is blocked; covers paise rounding
+  priceQuote: {
+    mismatchToleranceRupees: 1,
+  },
+
+  // Room hold while a booking awaits payment, when the backend sends no expiry
+  paymentHoldMinutes: 15,
+
+  // Replace checkout.js with a local fake (lib/mock-razorpay.ts) for offline testing
+  mockRazorpay: process.env.NEXT_PUBLIC_MOCK_RAZORPAY === "true",
+
+  // Check promo codes against a local list (lib/promo-codes.ts) instead of the backend
+  localPromoCodes: process.env.NEXT_PUBLIC_LOCAL_PROMO_CODES === "true",
+
+  // Background re-verification of payments the backend has not yet confirmed
+  paymentVerification: {
+    retryBaseSeconds: 5,
+    maxRetryDelaySeconds: 300,
+    maxAttempts: 8,
+  },
+
+  // Refund tiers applied when a hotel has no structured cancellation policy
+  defaultCancellationTiers: [
+    { minDaysBefore: 7, refundPercent: 100 },
+    { minDaysBefore: 3, refundPercent: 50 },
+    { minDaysBefore: 1, refundPercent: 25 },
+    { minDaysBefore: 0, refundPercent: 0 },
+  ],
+
   // Test phone numbers that bypass OTP for development
   testPhoneNumbers: ["9876543211", "9876543212", "9876543213"],
 
@@ -23,8 +94,10 @@ const config = {
     DRAFT: "Booking created, room not yet reserved",
     PENDING: "Payment initiated, room reserved",
     CONFIRMED: "Payment successful, booking confirmed",
+    CHECKED_IN: "Guest checked in by the property",
     CANCELLED: "Booking cancelled",
     COMPLETED: "Stay completed",
+    NO_SHOW: "Guest did not arrive",
   },
 };
 
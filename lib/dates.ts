@@ -0,0 +1,19 @@
+// Date keys
+// Stay and calendar dates are "YYYY-MM-DD" keys in local time; a night belongs
+// to the date it starts on.
+
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Backend dates may be full ISO timestamps; only the day is needed
+export function toDayKey(value: string): string {
+  return value.slice(0, 10);
+}
+
+export function addDays(dateKey: string, days: number): string {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return toDateKey(new Date(year, month - 1, day + days));
+}
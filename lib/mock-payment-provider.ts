@@ -0,0 +1,46 @@
+// Mock payment provider
+// Used when the backend issues orders with provider "mock" (local and offline
+// development). It asks for confirmation and returns deterministic IDs derived
+// from the order, which the backend's mock gateway accepts.
+
+import type { PaymentProvider } from "./payment-provider";
+
+// Payment ID both mock checkouts report for an order
+export function mockPaymentId(orderId: string): string {
+  return `pay_mock_${orderId}`;
+}
+
+export const MockPaymentProvider: PaymentProvider = {
+  id: "mock",
+
+  async load() {
+    return typeof window !== "undefined";
+  },
+
+  async open(order, bookingId, callbacks) {
+    if (typeof window === "undefined") return null;
+
+    const orderId = order.orderId || order.order_id;
+    const amount = (order.amount / 100).toLocaleString("en-IN");
+
+    // Let the opener finish updating state before blocking on the dialog
+    setTimeout(() => {
+      const paid = window.confirm(
+        `Mock payment for booking ${bookingId}\n\n${order.currency} ${amount}\n\nOK to pay, Cancel to close checkout.`
+      );
+      if (paid) {
+        callbacks.onSuccess({
+          paymentId: mockPaymentId(orderId),
+          orderId,
+          signature: `mock_signature_${orderId}`,
+        });
+      } else {
+        callbacks.onDismiss();
+      }
+    }, 0);
+    // The confirm dialog closes itself
+    return { close: () => {} };
+  },
+};
+
+export default MockPaymentProvider;
@@ -0,0 +1,202 @@
+// Mock Razorpay checkout
+// With NEXT_PUBLIC_MOCK_RAZORPAY=true, window.Razorpay is replaced by this fake
+// so the booking flow runs without checkout.js or network access. Its modal
+// offers success, failure, dismiss and timeout outcomes. Payment IDs derive from
+// the order ID. Signatures are HMAC-SHA256("order_id|payment_id"), which is how
+// Razorpay signs payments; they are computed by /api/mock-razorpay/signature so
+// the test key secret (MOCK_RAZORPAY_KEY_SECRET) stays on the server, and a
+// backend running with the same test secret verifies them. That route also
+// needs MOCK_RAZORPAY_SIGNING=true and is disabled in production builds.
+
+import { mockPaymentId } from "./mock-payment-provider";
+import { CHECKOUT_TIMEOUT_REASON } from "./payment-failures";
+import type {
+  RazorpayEvents,
+  RazorpayFailureResponse,
+  RazorpayInstance,
+  RazorpayOptions,
+} from "./razorpay-provider";
+
+const SIGNATURE_PATH = "/api/mock-razorpay/signature";
+
+async function signPayment(
+  orderId: string,
+  paymentId: string
+): Promise<string | null> {
+  try {
+    const response = await fetch(SIGNATURE_PATH, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ orderId, paymentId }),
+    });
+    const body = (await response.json()) as { data?: { signature?: string } };
+    return response.ok && body.data?.signature ? body.data.signature : null;
+  } catch (error) {
+    console.error("Mock checkout could not sign the payment:", error);
+    return null;
+  }
+}
+
+class MockRazorpay implements RazorpayInstance {
+  private failureListeners: RazorpayEvents["payment.failed"][] = [];
+  private overlay: HTMLDivElement | null = null;
+  private timeoutTimer: ReturnType<typeof setTimeout> | null = null;
+  private options: RazorpayOptions;
+
+  constructor(options: RazorpayOptions) {
+    this.options = options;
+  }
+
+  on<E extends keyof RazorpayEvents>(
+    event: E,
+    listener: RazorpayEvents[E]
+  ): void {
+    if (event === "payment.failed") {
+      this.failureListeners.push(listener);
+    }
+  }
+
+  open(): void {
+    if (this.overlay) return;
+
+    const { amount, currency, name, description, order_id } = this.options;
+    const overlay = document.createElement("div");
+    overlay.className =
+      "fixed inset-0 bg-black/40 flex items-center justify-center z-50 p-4";
+    overlay.setAttribute("data-testid", "mock-razorpay");
+
+    const panel = document.createElement("div");
+    panel.className = "bg-white rounded-lg shadow-xl max-w-sm w-full p-6";
+    panel.innerHTML = `
+      <div class="text-xs font-medium text-orange-600 mb-2">MOCK CHECKOUT</div>
+      <h3 class="text-lg font-bold text-gray-900"></h3>
+      <p class="text-sm text-gray-600"></p>
+      <p class="text-2xl font-bold text-gray-900 my-4"></p>
+      <p class="text-xs text-gray-500 font-mono mb-4"></p>
+      <div class="grid grid-cols-2 gap-2"></div>
+    `;
+    const [title, subtitle, total, order] = Array.from(
+      panel.querySelectorAll("h3, p")
+    );
+    title.textContent = name;
+    subtitle.textContent = description;
+    total.textContent = `${currency} ${(amount / 100).toLocaleString("en-IN")}`;
+    order.textContent = order_id;
+
+    const actions = panel.querySelector("div.grid") as HTMLDivElement;
+    const addButton = (label: string, style: string, onClick: () => void) => {
+      const button = document.createElement("button");
+      button.type = "button";
+      button.textContent = label;
+      button.className = `px-3 py-2 rounded-lg text-sm font-medium ${style}`;
+      button.addEventListener("click", onClick);
+      actions.appendChild(button);
+    };
+
+    addButton("Pay (success)", "bg-green-600 text-white", () => {
+      void this.succeed();
+    });
+    addButton("Decline (failure)", "bg-red-600 text-white", () => this.fail());
+    addButton("Close (dismiss)", "border border-gray-300 text-gray-700", () =>
+      this.dismiss()
+    );
+    addButton("Time out", "border border-gray-300 text-gray-700", () =>
+      this.timeOut()
+    );
+
+    overlay.appendChild(panel);
+    document.body.appendChild(overlay);
+    this.overlay = overlay;
+
+    // Like checkout.js, close the modal once options.timeout seconds pass
+    if (this.options.timeout) {
+      this.timeoutTimer = setTimeout(
+        () => this.timeOut(),
+        this.options.timeout * 1000
+      );
+    }
+  }
+
+  private async succeed(): Promise<void> {
+    const orderId = this.options.order_id;
+    const paymentId = mockPaymentId(orderId);
+    const signature = await signPayment(orderId, paymentId);
+    if (!signature) {
+      this.emitFailure({
+        code: "SERVER_ERROR",
+        description: "The mock checkout could not sign the payment.",
+        reason: "gateway_technical_error",
+        source: "gateway",
+        step: "payment_authorization",
+      });
+      return;
+    }
+
+    this.close();
+    this.options.handler({
+      razorpay_payment_id: paymentId,
+      razorpay_order_id: orderId,
+      razorpay_signature: signature,
+    });
+  }
+
+  // checkout.js keeps the modal open after a failure so the customer can retry
+  private fail(): void {
+    this.emitFailure({
+      code: "BAD_REQUEST_ERROR",
+      description: "Your payment has been declined by the bank (mock).",
+      reason: "payment_failed",
+      source: "bank",
+      step: "payment_authorization",
+    });
+  }
+
+  // The modal closes without a dismiss; the timeout is reported as a failure
+  private timeOut(): void {
+    this.emitFailure({
+      code: "BAD_REQUEST_ERROR",
+      description:
+        "Checkout timed out before the payment was completed (mock).",
+      reason: CHECKOUT_TIMEOUT_REASON,
+      source: "customer",
+      step: "payment_initiation",
+    });
+    this.close();
+  }
+
+  private emitFailure(
+    error: Omit<RazorpayFailureResponse["error"], "metadata">
+  ): void {
+    const orderId = this.options.order_id;
+    const response: RazorpayFailureResponse = {
+      error: {
+        ...error,
+        metadata: {
+          payment_id: mockPaymentId(orderId),
+          order_id: orderId,
+        },
+      },
+    };
+    this.failureListeners.forEach((listener) => listener(response));
+  }
+
+  private dismiss(): void {
+    this.close();
+    this.options.modal?.ondismiss?.();
+  }
+
+  close(): void {
+    if (this.timeoutTimer) {
+      clearTimeout(this.timeoutTimer);
+      this.timeoutTimer = null;
+    }
+    this.overlay?.remove();
+    this.overlay = null;
+  }
+}
+
+// Install the fake constructor in place of checkout.js (safe to call more than once)
+export function installMockRazorpay(): void {
+  if (typeof window === "undefined") return;
+  window.Razorpay = MockRazorpay;
+}
@@ -0,0 +1,67 @@
+// Payment failures
+// Turns the gateway's error code and reason into a message for the customer.
+// Gateway descriptions are often written for developers, so they are only
+// shown when nothing more specific is known.
+
+import type { PaymentFailure } from "./payment-utils";
+
+// Reported when checkout closes itself because options.timeout ran out. The
+// order behind it is treated as spent, so paying again needs a new order.
+export const CHECKOUT_TIMEOUT_REASON = "checkout_timed_out";
+
+const REASON_MESSAGES: Record<string, string> = {
+  payment_cancelled: "The payment was cancelled before it completed.",
+  [CHECKOUT_TIMEOUT_REASON]:
+    "Checkout timed out before the payment was completed. No money was taken.",
+  payment_timed_out:
+    "The payment took too long to complete. No money was taken; please try again.",
+  authentication_failed:
+    "Your bank could not verify the payment. Check the OTP or PIN and try again.",
+  incorrect_otp: "The OTP entered was incorrect. Please try again.",
+  incorrect_pin: "The PIN entered was incorrect. Please try again.",
+  insufficient_funds:
+    "The payment was declined for insufficient funds. Try another card or account.",
+  card_declined:
+    "Your card was declined. Try another card or a different payment method.",
+  payment_declined:
+    "Your bank declined the payment. Try another card or a different payment method.",
+  incorrect_card_details:
+    "The card details look incorrect. Check the number, expiry and CVV.",
+  card_expired: "This card has expired. Please use another card.",
+  international_transaction_not_allowed:
+    "This card does not allow international payments. Please use another card.",
+  payment_risk_check_failed:
+    "The payment was flagged by the bank's security checks. Try a different payment method.",
+  bank_technical_error:
+    "Your bank is having technical trouble. Please try again in a few minutes.",
+  gateway_technical_error:
+    "The payment gateway is having technical trouble. Please try again in a few minutes.",
+};
+
+const CODE_MESSAGES: Record<string, string> = {
+  GATEWAY_ERROR:
+    "The payment gateway is having technical trouble. Please try again in a few minutes.",
+  SERVER_ERROR:
+    "The payment could not be processed right now. Please try again in a few minutes.",
+};
+
+const DEFAULT_MESSAGE =
+  "The payment could not be completed. Please try again or use a different payment method.";
+
+export function isCheckoutTimeout(failure: PaymentFailure): boolean {
+  return failure.reason === CHECKOUT_TIMEOUT_REASON;
+}
+
+export function getPaymentFailureMessage(failure: PaymentFailure): string {
+  const byReason = failure.reason && REASON_MESSAGES[failure.reason];
+  if (byReason) return byReason;
+
+  const byCode = CODE_MESSAGES[failure.code];
+  if (byCode) return byCode;
+
+  // BAD_REQUEST_ERROR descriptions are addressed to the customer
+  if (failure.code === "BAD_REQUEST_ERROR" && failure.description) {
+    return failure.description;
+  }
+  return DEFAULT_MESSAGE;
+}
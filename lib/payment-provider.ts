@@ -0,0 +1,47 @@
+// Payment providers
+// A provider loads its gateway, opens checkout for a payment order and reports
+// the outcome through CheckoutCallbacks. The order's `provider` field picks one.
+
+import type {
+  GatewayPayment,
+  PaymentBackendData,
+  PaymentFailure,
+  PaymentProviderId,
+} from "./payment-utils";
+import RazorpayProvider from "./razorpay-provider";
+import MockPaymentProvider from "./mock-payment-provider";
+
+export interface CheckoutCallbacks {
+  onSuccess: (payment: GatewayPayment) => void;
+  onDismiss: () => void;
+  // The gateway may let the customer try again after a failure
+  onFailure: (failure: PaymentFailure) => void;
+}
+
+// An open checkout window
+export interface CheckoutSession {
+  close(): void;
+}
+
+export interface PaymentProvider {
+  readonly id: PaymentProviderId;
+  // Load the gateway's client code; false if it is unavailable
+  load(): Promise<boolean>;
+  // Open checkout for the order; null if it could not be opened
+  open(
+    order: PaymentBackendData,
+    bookingId: string,
+    callbacks: CheckoutCallbacks
+  ): Promise<CheckoutSession | null>;
+}
+
+const PROVIDERS: Record<PaymentProviderId, PaymentProvider> = {
+  razorpay: RazorpayProvider,
+  mock: MockPaymentProvider,
+};
+
+export function getPaymentProvider(
+  order?: Pick<PaymentBackendData, "provider">
+): PaymentProvider {
+  return PROVIDERS[order?.provider ?? "razorpay"];
+}
@@ -0,0 +1,258 @@
+// Payment reconciler
+// The gateway only hands the payment IDs to the browser, so they are stored before
+// verification and re-sent until the backend confirms the booking. Unverified
+// payments are retried with backoff while the app is open and again on next load.
+
+import config from "./config";
+import ApiClient, { ApiError, ApiResult, VerifiedPayment } from "./api-client";
+import { AuthService } from "./auth";
+import type { GatewayPayment } from "./payment-utils";
+
+export interface UnverifiedPayment {
+  bookingId: string;
+  // Owner of the booking; other accounts on this browser leave it alone
+  userId?: string;
+  gatewayPayment: GatewayPayment;
+  savedAt: number;
+  attempts: number;
+  // null once automatic retries are exhausted
+  nextAttemptAt: number | null;
+  lastError?: string;
+}
+
+type UnverifiedListener = (payments: UnverifiedPayment[]) => void;
+
+// Bookings in these statuses no longer need their payment verified
+const SETTLED_STATUSES = ["CONFIRMED", "CHECKED_IN", "COMPLETED"];
+
+export class PaymentReconciler {
+  private static readonly STORAGE_KEY = "unverifiedPayments";
+  private static listeners = new Set<UnverifiedListener>();
+  private static snapshot: UnverifiedPayment[] = [];
+  private static timer: ReturnType<typeof setTimeout> | null = null;
+  private static started = false;
+  private static inFlight = new Map<
+    string,
+    Promise<ApiResult<VerifiedPayment | undefined>>
+  >();
+
+  // Resume reconciliation for the signed-in user (safe to call more than once)
+  static start(): void {
+    if (typeof window === "undefined" || this.started) return;
+    this.started = true;
+
+    window.addEventListener("storage", this.handleStorage);
+    this.publish();
+    void this.reconcile();
+  }
+
+  static stop(): void {
+    if (typeof window === "undefined" || !this.started) return;
+    this.started = false;
+
+    window.removeEventListener("storage", this.handleStorage);
+    this.clearTimer();
+    this.snapshot = [];
+    this.listeners.forEach((listener) => listener(this.snapshot));
+  }
+
+  static getUnverified(): UnverifiedPayment[] {
+    return this.snapshot;
+  }
+
+  static subscribe(listener: UnverifiedListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Persist the gateway response, then verify it. A failed verification stays
+  // stored and is retried in the background.
+  static async verify(
+    bookingId: string,
+    gatewayPayment: GatewayPayment
+  ): Promise<ApiResult<VerifiedPayment | undefined>> {
+    const payments = this.read();
+    payments[bookingId] = {
+      bookingId,
+      userId: AuthService.getUser()?.id,
+      gatewayPayment,
+      savedAt: Date.now(),
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+    };
+    this.write(payments);
+
+    return this.attempt(bookingId);
+  }
+
+  // Verify every payment that is due now, or all of them when forced
+  static async reconcile(force = false): Promise<void> {
+    this.clearTimer();
+    const now = Date.now();
+    const due = this.forCurrentUser().filter(
+      (payment) =>
+        force ||
+        (payment.nextAttemptAt !== null && payment.nextAttemptAt <= now)
+    );
+
+    for (const payment of due) {
+      await this.attempt(payment.bookingId);
+    }
+    this.schedule();
+  }
+
+  // Concurrent callers for the same booking share one verification
+  private static attempt(
+    bookingId: string
+  ): Promise<ApiResult<VerifiedPayment | undefined>> {
+    let pending = this.inFlight.get(bookingId);
+    if (!pending) {
+      pending = this.runAttempt(bookingId).finally(() =>
+        this.inFlight.delete(bookingId)
+      );
+      this.inFlight.set(bookingId, pending);
+    }
+    return pending;
+  }
+
+  private static async runAttempt(
+    bookingId: string
+  ): Promise<ApiResult<VerifiedPayment | undefined>> {
+    const payment = this.read()[bookingId];
+    if (!payment) {
+      return {
+        ok: false,
+        error: { kind: "validation", message: "No stored payment to verify" },
+      };
+    }
+
+    const result = await ApiClient.verifyPayment(
+      bookingId,
+      payment.gatewayPayment
+    );
+    const settled = result.ok || (await this.isRecorded(payment));
+
+    if (settled) {
+      this.remove(bookingId);
+    } else if (!result.ok) {
+      this.recordFailure(bookingId, result.error);
+    }
+    this.schedule();
+
+    return settled && !result.ok ? { ok: true, data: undefined } : result;
+  }
+
+  // The backend may have recorded the payment even though verify failed, e.g.
+  // from the gateway webhook or an earlier attempt whose response was lost. The
+  // booking status alone is not enough: a booking paying the balance of a
+  // modification is already CONFIRMED, so its payment must be this one.
+  private static async isRecorded(
+    payment: UnverifiedPayment
+  ): Promise<boolean> {
+    const booking = await ApiClient.getBooking(payment.bookingId);
+    return (
+      booking.ok &&
+      SETTLED_STATUSES.includes(booking.data.status.toUpperCase()) &&
+      booking.data.payment?.razorpayPaymentId ===
+        payment.gatewayPayment.paymentId
+    );
+  }
+
+  private static recordFailure(bookingId: string, error: ApiError): void {
+    const payments = this.read();
+    const payment = payments[bookingId];
+    if (!payment) return;
+
+    const attempts = payment.attempts + 1;
+    const { maxAttempts } = config.paymentVerification;
+    payments[bookingId] = {
+      ...payment,
+      attempts,
+      nextAttemptAt:
+        attempts >= maxAttempts ? null : Date.now() + this.retryDelay(attempts),
+      lastError: error.message,
+    };
+    this.write(payments);
+  }
+
+  // Exponential backoff: base, 2x base, 4x base ... up to the cap
+  private static retryDelay(attempts: number): number {
+    const { retryBaseSeconds, maxRetryDelaySeconds } =
+      config.paymentVerification;
+    return (
+      Math.min(retryBaseSeconds * 2 ** (attempts - 1), maxRetryDelaySeconds) *
+      1000
+    );
+  }
+
+  private static schedule(): void {
+    this.clearTimer();
+    if (!this.started) return;
+
+    const next = this.forCurrentUser()
+      .map((payment) => payment.nextAttemptAt)
+      .filter((at): at is number => at !== null)
+      .sort((a, b) => a - b)[0];
+    if (next === undefined) return;
+
+    this.timer = setTimeout(
+      () => void this.reconcile(),
+      Math.max(0, next - Date.now())
+    );
+  }
+
+  private static forCurrentUser(): UnverifiedPayment[] {
+    const userId = AuthService.getUser()?.id;
+    return Object.values(this.read()).filter(
+      (payment) => !payment.userId || payment.userId === userId
+    );
+  }
+
+  private static remove(bookingId: string): void {
+    const payments = this.read();
+    if (!(bookingId in payments)) return;
+    delete payments[bookingId];
+    this.write(payments);
+  }
+
+  private static read(): Record<string, UnverifiedPayment> {
+    if (typeof window === "undefined") return {};
+    try {
+      const raw = localStorage.getItem(this.STORAGE_KEY);
+      const payments = raw ? JSON.parse(raw) : {};
+      return payments && typeof payments === "object" ? payments : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private static write(payments: Record<string, UnverifiedPayment>): void {
+    if (typeof window === "undefined") return;
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(payments));
+    this.publish();
+  }
+
+  private static publish(): void {
+    this.snapshot = this.started ? this.forCurrentUser() : [];
+    this.listeners.forEach((listener) => listener(this.snapshot));
+  }
+
+  private static clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Another tab verified or stored a payment
+  private static handleStorage = (event: StorageEvent) => {
+    if (event.key === null || event.key === PaymentReconciler.STORAGE_KEY) {
+      PaymentReconciler.publish();
+      PaymentReconciler.schedule();
+    }
+  };
+}
+
+export default PaymentReconciler;
@@ -1,13 +1,14 @@
-// Payment utility for Razorpay integration
-// Handles script loading and payment initialization
+// Payment types shared by the checkout flow and the payment providers
 
-export interface RazorpayResponse {
-  razorpay_payment_id: string;
-  razorpay_order_id: string;
-  razorpay_signature: string;
-}
+export const PAYMENT_PROVIDER_IDS = ["razorpay", "mock"] as const;
+
+export type PaymentProviderId = (typeof PAYMENT_PROVIDER_IDS)[number];
 
+// Payment order returned by POST /bookings/{id}/payment/create-order.
+// Gateway fields use Razorpay's names, which is what the backend sends.
 export interface PaymentBackendData {
+  // Gateway that should take this payment; Razorpay when absent
+  provider?: PaymentProviderId;
   key: string;
   amount: number;
   currency: string;
@@ -41,189 +42,29 @@ export interface PaymentBackendData {
     name?: boolean;
   };
   notes?: Record<string, string>;
+  // When the room reservation behind this order lapses (ISO timestamp)
+  holdExpiresAt?: string;
 }
 
-export interface ApiResponse {
-  success: boolean;
-  message?: string;
-  data?: unknown;
+// Proof of a completed payment, sent to the backend for verification
+export interface GatewayPayment {
+  paymentId: string;
+  orderId: string;
+  signature: string;
 }
 
-export interface RazorpayOptions {
-  key: string;
-  amount: number;
-  currency: string;
-  name: string;
+// A payment attempt the gateway declined or could not complete
+export interface PaymentFailure {
+  code: string;
   description: string;
-  image?: string;
-  order_id: string;
-  prefill?: {
-    name?: string;
-    email?: string;
-    contact?: string;
-  };
-  theme?: {
-    color?: string;
-  };
-  retry?: {
-    enabled?: boolean;
-    max_count?: number;
-  };
-  timeout?: number;
-  remember_customer?: boolean;
-  readonly?: {
-    email?: boolean;
-    contact?: boolean;
-    name?: boolean;
-  };
-  hidden?: {
-    email?: boolean;
-    contact?: boolean;
-    name?: boolean;
-  };
-  notes?: Record<string, string>;
-  handler: (response: RazorpayResponse) => void;
-  modal?: {
-    ondismiss?: () => void;
-  };
+  reason?: string;
+  source?: string;
+  step?: string;
+  paymentId?: string;
+  orderId?: string;
 }
 
 export class PaymentUtils {
-  // Check if Razorpay is loaded
-  static isRazorpayLoaded(): boolean {
-    return typeof window !== "undefined" && !!window.Razorpay;
-  }
-
-  // Wait for Razorpay to load
-  static waitForRazorpay(timeout = 10000): Promise<boolean> {
-    return new Promise((resolve) => {
-      if (this.isRazorpayLoaded()) {
-        resolve(true);
-        return;
-      }
-
-      const startTime = Date.now();
-      const checkInterval = setInterval(() => {
-        if (this.isRazorpayLoaded()) {
-          clearInterval(checkInterval);
-          resolve(true);
-        } else if (Date.now() - startTime > timeout) {
-          clearInterval(checkInterval);
-          resolve(false);
-        }
-      }, 100);
-    });
-  }
-
-  // Initialize Razorpay payment
-  static async initializePayment(options: RazorpayOptions): Promise<boolean> {
-    try {
-      // Wait for Razorpay to load
-      const isLoaded = await this.waitForRazorpay();
-
-      if (!isLoaded) {
-        throw new Error("Razorpay failed to load");
-      }
-
-      // Create and open Razorpay instance (narrowed)
-      const RazorpayConstructor = window.Razorpay;
-      if (!RazorpayConstructor)
-        throw new Error("Razorpay constructor not available");
-      const rzp = new RazorpayConstructor(options);
-      rzp.open();
-
-      return true;
-    } catch (error) {
-      console.error("Payment initialization error:", error);
-      return false;
-    }
-  }
-
-  // Format payment options from backend response
-  static formatPaymentOptions(
-    paymentData: PaymentBackendData,
-    bookingId: string,
-    onSuccess: (response: RazorpayResponse) => void,
-    onDismiss?: () => void
-  ): RazorpayOptions {
-    return {
-      key: paymentData.key,
-      amount: paymentData.amount,
-      currency: paymentData.currency,
-      name: paymentData.name || "Sojourn",
-      description: paymentData.description || "Hotel Booking",
-      image: paymentData.image,
-      order_id: paymentData.orderId || paymentData.order_id,
-      prefill: paymentData.prefill,
-      theme: paymentData.theme,
-      retry: paymentData.retry,
-      timeout: paymentData.timeout,
-      remember_customer: paymentData.remember_customer,
-      readonly: paymentData.readonly,
-      hidden: paymentData.hidden,
-      notes: paymentData.notes,
-      handler: onSuccess,
-      modal: {
-        ondismiss:
-          onDismiss ||
-          (() => {
-            console.log("Payment modal dismissed");
-          }),
-      },
-    };
-  }
-
-  // Safely access nested object properties
-  static safeGet<T = unknown>(
-    obj: unknown,
-    path: string,
-    defaultValue: T | null = null
-  ): T | null {
-    let current: unknown = obj;
-    const parts = path.split(".");
-
-    for (const key of parts) {
-      if (
-        current !== null &&
-        typeof current === "object" &&
-        Object.prototype.hasOwnProperty.call(current, key)
-      ) {
-        current = (current as Record<string, unknown>)[key];
-      } else {
-        return defaultValue;
-      }
-    }
-
-    return current as T;
-  }
-
-  // Validate API response structure
-  static validateApiResponse(
-    response: unknown,
-    requiredFields: string[] = []
-  ): boolean {
-    if (!response || typeof response !== "object") {
-      return false;
-    }
-
-    const resp = response as Record<string, unknown>;
-
-    // Check if success field exists and is true
-    if (!resp["success"]) {
-      return false;
-    }
-
-    // Check required fields
-    for (const field of requiredFields) {
-      if (this.safeGet(response, field) === null) {
-        console.warn(`Missing required field: ${field}`);
-        return false;
-      }
-    }
-
-    return true;
-  }
-
   // Log API response safely
   static logApiResponse(response: unknown, context: string): void {
     try {
@@ -233,14 +74,38 @@ export class PaymentUtils {
       console.log(`${context} - Response (non-serializable):`, response);
     }
   }
-}
 
-// Global Razorpay type declaration
-declare global {
-  interface Window {
-    Razorpay?: {
-      new (options: RazorpayOptions): { open: () => void };
-    };
+  // Add a script tag once and resolve when it has loaded
+  static loadScript(src: string, timeout = 10000): Promise<boolean> {
+    if (typeof document === "undefined") return Promise.resolve(false);
+
+    return new Promise((resolve) => {
+      let script = document.querySelector<HTMLScriptElement>(
+        `script[src="${src}"]`
+      );
+      if (script?.dataset.loaded === "true") {
+        resolve(true);
+        return;
+      }
+
+      if (!script) {
+        script = document.createElement("script");
+        script.src = src;
+        script.async = true;
+        document.body.appendChild(script);
+      }
+
+      const timer = setTimeout(() => resolve(false), timeout);
+      script.addEventListener("load", () => {
+        clearTimeout(timer);
+        script.dataset.loaded = "true";
+        resolve(true);
+      });
+      script.addEventListener("error", () => {
+        clearTimeout(timer);
+        resolve(false);
+      });
+    });
   }
 }
 
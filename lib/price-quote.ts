@@ -0,0 +1,42 @@
+// Price quotes
+// The backend quotes the stay before payment and that quote is what the guest
+// sees and agrees to. The payment order's amount (in paise) is checked against
+// it, and checkout does not open when they differ.
+
+import config from "./config";
+import type { PriceQuote } from "./api-client";
+import type { PaymentBackendData } from "./payment-utils";
+import { formatRupees } from "./pricing";
+
+export interface QuoteMismatch {
+  quotedAmount: number;
+  orderAmount: number;
+}
+
+export function isQuoteCurrent(
+  quote: PriceQuote,
+  now: number = Date.now()
+): boolean {
+  const expiresAt = quote.expiresAt ? Date.parse(quote.expiresAt) : NaN;
+  return Number.isNaN(expiresAt) || expiresAt > now;
+}
+
+// null when the order charges what was quoted
+export function getQuoteMismatch(
+  quote: Pick<PriceQuote, "total">,
+  order: PaymentBackendData
+): QuoteMismatch | null {
+  const orderAmount = order.amount / 100;
+  const gap = Math.abs(orderAmount - quote.total);
+  return gap > config.priceQuote.mismatchToleranceRupees
+    ? { quotedAmount: quote.total, orderAmount }
+    : null;
+}
+
+export function describeQuoteMismatch({
+  quotedAmount,
+  orderAmount,
+}: QuoteMismatch): string {
+  const direction = orderAmount > quotedAmount ? "more" : "less";
+  return `The payment amount (${formatRupees(orderAmount)}) is ${direction} than the price we quoted (${formatRupees(quotedAmount)}), so payment has been stopped and you have not been charged. Refresh the price and try again, or contact support if this keeps happening.`;
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyDiscount,
+  getGstPercent,
+  getNightlyRate,
+  priceStay,
+  splitInclusiveTotal,
+} from "./pricing";
+
+const seasonalRoom = { basePrice: 2000, summerPrice: 3000, winterPrice: 2500 };
+
+describe("priceStay", () => {
+  it("prices each night at its season's rate across the April boundary", () => {
+    const price = priceStay(seasonalRoom, "2026-03-30", "2026-04-02");
+
+    expect(price?.nights.map((night) => [night.date, night.rate])).toEqual([
+      ["2026-03-30", 2500],
+      ["2026-03-31", 2500],
+      ["2026-04-01", 3000],
+    ]);
+    expect(price?.lines).toEqual([
+      { label: "₹2,500 × 2 nights (Winter rate)", amount: 5000 },
+      { label: "₹3,000 × 1 night (Summer rate)", amount: 3000 },
+    ]);
+    expect(price?.subtotal).toBe(8000);
+    expect(price?.taxes).toEqual([{ label: "GST (12%)", amount: 960 }]);
+    expect(price?.total).toBe(8960);
+  });
+
+  it("switches back to the winter rate after September", () => {
+    const price = priceStay(seasonalRoom, "2026-09-29", "2026-10-02");
+
+    expect(price?.nights.map((night) => night.season)).toEqual([
+      "summer",
+      "summer",
+      "winter",
+    ]);
+    expect(price?.subtotal).toBe(3000 + 3000 + 2500);
+  });
+
+  it("splits GST by slab when nights fall in different slabs", () => {
+    const price = priceStay(
+      { summerPrice: 8000, winterPrice: 1000 },
+      "2026-03-31",
+      "2026-04-02"
+    );
+
+    expect(price?.taxes).toEqual([{ label: "GST (18%)", amount: 1440 }]);
+    expect(price?.total).toBe(1000 + 8000 + 1440);
+  });
+
+  it("falls back to the base price when the season has no price", () => {
+    const room = { basePrice: 2000, winterPrice: 2500 };
+
+    expect(getNightlyRate(room, "2026-05-10")).toBe(2000);
+    expect(getNightlyRate(room, "2026-12-10")).toBe(2500);
+    expect(priceStay(room, "2026-05-10", "2026-05-12")?.subtotal).toBe(4000);
+  });
+
+  it("returns null without nights or a rate", () => {
+    expect(priceStay(seasonalRoom, "2026-05-10", "2026-05-10")).toBeNull();
+    expect(priceStay(seasonalRoom, "", "2026-05-10")).toBeNull();
+    expect(priceStay({}, "2026-05-10", "2026-05-12")).toBeNull();
+  });
+});
+
+describe("getGstPercent", () => {
+  it("applies each slab up to and including its limit", () => {
+    expect(getGstPercent(1000)).toBe(0);
+    expect(getGstPercent(1001)).toBe(12);
+    expect(getGstPercent(7500)).toBe(12);
+    expect(getGstPercent(7501)).toBe(18);
+  });
+
+  it("charges no GST on a stay at the lowest slab", () => {
+    const price = priceStay({ basePrice: 1000 }, "2026-01-10", "2026-01-12");
+
+    expect(price?.taxes).toEqual([]);
+    expect(price?.total).toBe(2000);
+  });
+});
+
+describe("applyDiscount", () => {
+  it("moves a discounted night into a lower GST slab", () => {
+    const price = priceStay({ basePrice: 1200 }, "2026-01-10", "2026-01-11");
+    expect(price?.total).toBe(1344);
+
+    const discounted = applyDiscount(price!, "Promo SAVE300", [300]);
+
+    expect(discounted.nights[0].gstPercent).toBe(0);
+    expect(discounted.lines).toEqual(price?.lines);
+    expect(discounted.discounts).toEqual([
+      { label: "Promo SAVE300", amount: 300 },
+    ]);
+    expect(discounted.subtotal).toBe(900);
+    expect(discounted.taxes).toEqual([]);
+    expect(discounted.total).toBe(900);
+  });
+
+  it("never takes more than a night's rate off it", () => {
+    const price = priceStay({ basePrice: 1200 }, "2026-01-10", "2026-01-11");
+
+    expect(applyDiscount(price!, "Promo", [5000]).total).toBe(0);
+  });
+});
+
+describe("splitInclusiveTotal", () => {
+  it("rounds the taxable amount to the paisa", () => {
+    expect(splitInclusiveTotal(5000, 1)).toEqual({
+      taxableAmount: 4464.29,
+      gstPercent: 12,
+    });
+    expect(splitInclusiveTotal(20000, 1)).toEqual({
+      taxableAmount: 16949.15,
+      gstPercent: 18,
+    });
+  });
+
+  it("picks the slab from the nightly tariff", () => {
+    expect(splitInclusiveTotal(1000, 1)).toEqual({
+      taxableAmount: 1000,
+      gstPercent: 0,
+    });
+    expect(splitInclusiveTotal(3360, 2)).toEqual({
+      taxableAmount: 3000,
+      gstPercent: 12,
+    });
+  });
+});
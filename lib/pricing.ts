@@ -0,0 +1,207 @@
+// Pricing
+// Prices a stay night by night: each night takes its season's rate and GST at
+// the slab for that night's tariff, so a stay that spans seasons or slabs is
+// charged correctly. A discount comes off each night before GST, and the slab
+// follows the discounted tariff. Search, hotel details and the booking form
+// all price through here. The backend's payment order remains the amount charged.
+
+import config from "./config";
+import { addDays, toDateKey, toDayKey } from "./dates";
+
+export type Season = "summer" | "winter";
+
+// Rate fields shared by HotelRoom and the search result rooms
+export interface RoomRates {
+  basePrice?: number;
+  summerPrice?: number;
+  winterPrice?: number;
+}
+
+export interface PriceLine {
+  label: string;
+  amount: number;
+}
+
+export interface NightPrice {
+  date: string;
+  season: Season;
+  rate: number;
+  // Rupees off this night's rate
+  discount: number;
+  gstPercent: number;
+}
+
+// What a price breakdown displays; also the shape of the backend's quote
+export interface PriceBreakdown {
+  lines: PriceLine[];
+  discounts?: PriceLine[];
+  // Room charges after discounts; GST is charged on this
+  subtotal: number;
+  taxes: PriceLine[];
+  totalTax: number;
+  total: number;
+}
+
+export interface StayPrice extends PriceBreakdown {
+  nights: NightPrice[];
+  // Room charges grouped by nightly rate
+  lines: PriceLine[];
+  discounts: PriceLine[];
+  // GST grouped by slab
+  taxes: PriceLine[];
+  // Subtotal spread evenly over the nights, for "per night" displays
+  averageNightlyRate: number;
+}
+
+const SEASON_LABELS: Record<Season, string> = {
+  summer: "Summer rate",
+  winter: "Winter rate",
+};
+
+export function roundRupees(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export function formatRupees(amount: number): string {
+  return `₹${amount.toLocaleString("en-IN", { maximumFractionDigits: 2 })}`;
+}
+
+export function getSeason(dateKey: string): Season {
+  const month = Number(dateKey.slice(5, 7));
+  return config.pricing.summerMonths.includes(month) ? "summer" : "winter";
+}
+
+// The night's seasonal rate, falling back to the base price
+export function getNightlyRate(
+  rates: RoomRates,
+  date: string = toDateKey(new Date())
+): number | undefined {
+  const seasonal =
+    getSeason(toDayKey(date)) === "summer"
+      ? rates.summerPrice
+      : rates.winterPrice;
+  const rate = seasonal || rates.basePrice;
+  return rate && rate > 0 ? rate : undefined;
+}
+
+export function getGstPercent(nightlyRate: number): number {
+  const slab = config.pricing.gstSlabs.find(
+    (candidate) => nightlyRate <= candidate.upTo
+  );
+  return slab?.ratePercent ?? 0;
+}
+
+export function countNights(checkIn: string, checkOut: string): number {
+  const nights = Math.round(
+    (Date.parse(toDayKey(checkOut)) - Date.parse(toDayKey(checkIn))) /
+      (1000 * 60 * 60 * 24)
+  );
+  return Number.isNaN(nights) ? 0 : Math.max(0, nights);
+}
+
+// Itemized price for the nights from checkIn up to (not including) checkOut;
+// null when the dates are incomplete or the room has no rate
+export function priceStay(
+  rates: RoomRates,
+  checkIn: string,
+  checkOut: string
+): StayPrice | null {
+  const nightCount = countNights(checkIn, checkOut);
+  if (nightCount === 0) return null;
+
+  const nights: NightPrice[] = [];
+  for (let i = 0; i < nightCount; i++) {
+    const date = addDays(toDayKey(checkIn), i);
+    const rate = getNightlyRate(rates, date);
+    if (rate === undefined) return null;
+    nights.push({
+      date,
+      season: getSeason(date),
+      rate,
+      discount: 0,
+      gstPercent: getGstPercent(rate),
+    });
+  }
+  return summarize(nights);
+}
+
+// Reprice a stay with nightDiscounts[i] rupees off night i
+export function applyDiscount(
+  price: StayPrice,
+  label: string,
+  nightDiscounts: number[]
+): StayPrice {
+  const nights = price.nights.map((night, i) => {
+    const discount = Math.min(night.rate, nightDiscounts[i] ?? 0);
+    return {
+      ...night,
+      discount,
+      gstPercent: getGstPercent(night.rate - discount),
+    };
+  });
+  return summarize(nights, label);
+}
+
+function summarize(
+  nights: NightPrice[],
+  discountLabel = "Discount"
+): StayPrice {
+  const byRate = new Map<string, { night: NightPrice; count: number }>();
+  const bySlab = new Map<number, number>();
+  for (const night of nights) {
+    const key = `${night.season}:${night.rate}`;
+    const group = byRate.get(key);
+    byRate.set(key, { night, count: (group?.count ?? 0) + 1 });
+    bySlab.set(
+      night.gstPercent,
+      (bySlab.get(night.gstPercent) ?? 0) +
+        ((night.rate - night.discount) * night.gstPercent) / 100
+    );
+  }
+
+  const lines = Array.from(byRate.values()).map(({ night, count }) => ({
+    label: `${formatRupees(night.rate)} × ${count} night${count === 1 ? "" : "s"} (${SEASON_LABELS[night.season]})`,
+    amount: night.rate * count,
+  }));
+  const taxes = Array.from(bySlab.entries())
+    .filter(([percent]) => percent > 0)
+    .map(([percent, amount]) => ({
+      label: `GST (${percent}%)`,
+      amount: Math.round(amount),
+    }));
+
+  const discountTotal = roundRupees(
+    nights.reduce((sum, night) => sum + night.discount, 0)
+  );
+  const discounts =
+    discountTotal > 0 ? [{ label: discountLabel, amount: discountTotal }] : [];
+
+  const roomCharges = lines.reduce((sum, line) => sum + line.amount, 0);
+  const subtotal = roundRupees(roomCharges - discountTotal);
+  const totalTax = taxes.reduce((sum, tax) => sum + tax.amount, 0);
+  return {
+    nights,
+    lines,
+    discounts,
+    subtotal,
+    taxes,
+    totalTax,
+    total: roundRupees(subtotal + totalTax),
+    averageNightlyRate: roundRupees(subtotal / nights.length),
+  };
+}
+
+// Split a GST-inclusive total back into room charges and GST, assuming an even
+// nightly tariff. Used when only the amount paid is known.
+export function splitInclusiveTotal(
+  total: number,
+  nights: number
+): { taxableAmount: number; gstPercent: number } {
+  for (const slab of config.pricing.gstSlabs) {
+    const taxableAmount = roundRupees(total / (1 + slab.ratePercent / 100));
+    if (taxableAmount / Math.max(1, nights) <= slab.upTo) {
+      return { taxableAmount, gstPercent: slab.ratePercent };
+    }
+  }
+  return { taxableAmount: total, gstPercent: 0 };
+}
@@ -0,0 +1,181 @@
+// Promo codes
+// A code is validated by the backend, or against LOCAL_PROMO_CODES when
+// config.localPromoCodes is set. Its terms are checked against the stay here
+// so the guest sees why a code does not apply, and its discount is previewed
+// on the price estimate. The backend's quote carries the discount charged.
+
+import config from "./config";
+import ApiClient, { PromoCode, PromoCodeRequest } from "./api-client";
+import {
+  applyDiscount,
+  countNights,
+  NightPrice,
+  roundRupees,
+  StayPrice,
+} from "./pricing";
+import { toDayKey } from "./dates";
+
+export type PromoStay = Omit<PromoCodeRequest, "code">;
+
+export type PromoValidation =
+  | { ok: true; promo: PromoCode }
+  | { ok: false; message: string };
+
+// Stand-in codes for offline testing
+const LOCAL_PROMO_CODES: PromoCode[] = [
+  {
+    code: "WELCOME10",
+    description: "10% off your stay, up to ₹2,000",
+    discountType: "PERCENTAGE",
+    value: 10,
+    maxDiscount: 2000,
+  },
+  {
+    code: "FLAT500",
+    description: "₹500 off stays of 2 nights or more",
+    discountType: "FLAT",
+    value: 500,
+    minNights: 2,
+  },
+  {
+    code: "STAY4PAY3",
+    description: "Stay 4 nights, pay for 3",
+    discountType: "FREE_NIGHTS",
+    value: 1,
+    minNights: 4,
+  },
+  {
+    code: "MONSOON15",
+    description: "15% off monsoon check-ins",
+    discountType: "PERCENTAGE",
+    value: 15,
+    validFrom: "2026-06-01",
+    validUntil: "2026-09-30",
+  },
+];
+
+function formatDate(value: string): string {
+  return new Date(toDayKey(value)).toLocaleDateString("en-IN", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+}
+
+export async function validatePromoCode(
+  code: string,
+  stay: PromoStay
+): Promise<PromoValidation> {
+  const normalized = code.trim().toUpperCase();
+  if (!normalized) return { ok: false, message: "Enter a promo code." };
+
+  let promo: PromoCode | undefined;
+  if (config.localPromoCodes) {
+    promo = LOCAL_PROMO_CODES.find((local) => local.code === normalized);
+  } else {
+    const result = await ApiClient.validatePromoCode({
+      ...stay,
+      code: normalized,
+    });
+    if (!result.ok && result.error.kind === "network") {
+      return {
+        ok: false,
+        message: "We could not check this code. Please try again.",
+      };
+    }
+    if (!result.ok) {
+      return { ok: false, message: result.error.message };
+    }
+    promo = result.data;
+  }
+
+  if (!promo) {
+    return { ok: false, message: `${normalized} is not a valid promo code.` };
+  }
+  const problem = getPromoIneligibility(promo, stay.checkIn, stay.checkOut);
+  return problem ? { ok: false, message: problem } : { ok: true, promo };
+}
+
+// Why the code does not apply to this stay; null when it does
+export function getPromoIneligibility(
+  promo: PromoCode,
+  checkIn: string,
+  checkOut: string
+): string | null {
+  const nights = countNights(checkIn, checkOut);
+  if (nights === 0) return "Select your dates to use a promo code.";
+
+  if (promo.minNights && nights < promo.minNights) {
+    return `${promo.code} needs a stay of at least ${promo.minNights} nights.`;
+  }
+  if (promo.discountType === "FREE_NIGHTS" && nights <= promo.value) {
+    return `${promo.code} needs a stay of more than ${promo.value} night${promo.value === 1 ? "" : "s"}.`;
+  }
+
+  const checkInDay = toDayKey(checkIn);
+  if (promo.validFrom && checkInDay < toDayKey(promo.validFrom)) {
+    return `${promo.code} applies to check-ins from ${formatDate(promo.validFrom)}.`;
+  }
+  if (promo.validUntil && checkInDay > toDayKey(promo.validUntil)) {
+    return `${promo.code} applies to check-ins until ${formatDate(promo.validUntil)}.`;
+  }
+  return null;
+}
+
+// Rupees off each night of the stay, before GST
+export function getNightDiscounts(
+  promo: PromoCode,
+  nights: NightPrice[]
+): number[] {
+  const rates = nights.map((night) => night.rate);
+  const roomCharges = rates.reduce((sum, rate) => sum + rate, 0);
+
+  switch (promo.discountType) {
+    case "PERCENTAGE": {
+      const discount = (roomCharges * promo.value) / 100;
+      return spreadDiscount(
+        rates,
+        promo.maxDiscount !== undefined
+          ? Math.min(discount, promo.maxDiscount)
+          : discount
+      );
+    }
+    case "FLAT":
+      return spreadDiscount(rates, Math.min(promo.value, roomCharges));
+    case "FREE_NIGHTS": {
+      // The cheapest nights are the free ones
+      const free = new Set(
+        rates
+          .map((rate, index) => ({ rate, index }))
+          .sort((a, b) => a.rate - b.rate)
+          .slice(0, promo.value)
+          .map(({ index }) => index)
+      );
+      return rates.map((rate, index) => (free.has(index) ? rate : 0));
+    }
+  }
+}
+
+// Split a discount across the nights in proportion to their rates; the last
+// night takes the rounding remainder
+function spreadDiscount(rates: number[], discount: number): number[] {
+  const roomCharges = rates.reduce((sum, rate) => sum + rate, 0);
+  if (roomCharges === 0) return rates.map(() => 0);
+
+  const shares = rates.map((rate) =>
+    roundRupees((discount * rate) / roomCharges)
+  );
+  const allocated = shares.reduce((sum, share) => sum + share, 0);
+  shares[shares.length - 1] = roundRupees(
+    shares[shares.length - 1] + discount - allocated
+  );
+  return shares;
+}
+
+export function applyPromo(price: StayPrice, promo: PromoCode): StayPrice {
+  return applyDiscount(
+    price,
+    `Promo ${promo.code}`,
+    getNightDiscounts(promo, price.nights)
+  );
+}
@@ -0,0 +1,135 @@
+// Razorpay checkout
+// Wraps checkout.js: the modal reports success through `handler`, a closed
+// modal through `modal.ondismiss` and declined attempts through `payment.failed`.
+
+import config from "./config";
+import { installMockRazorpay } from "./mock-razorpay";
+import type { CheckoutCallbacks, PaymentProvider } from "./payment-provider";
+import PaymentUtils, { PaymentBackendData } from "./payment-utils";
+
+const RAZORPAY_SCRIPT_URL = "https://checkout.razorpay.com/v1/checkout.js";
+
+export interface RazorpaySuccessResponse {
+  razorpay_payment_id: string;
+  razorpay_order_id: string;
+  razorpay_signature: string;
+}
+
+export interface RazorpayFailureResponse {
+  error: {
+    code: string;
+    description: string;
+    reason?: string;
+    source?: string;
+    step?: string;
+    metadata?: { payment_id?: string; order_id?: string };
+  };
+}
+
+// checkout.js options: the order's gateway fields plus the callbacks
+export type RazorpayOptions = Omit<
+  PaymentBackendData,
+  "provider" | "orderId" | "holdExpiresAt"
+> & {
+  name: string;
+  description: string;
+  handler: (response: RazorpaySuccessResponse) => void;
+  modal?: {
+    ondismiss?: () => void;
+  };
+};
+
+// Events checkout.js emits on the instance
+export interface RazorpayEvents {
+  "payment.failed": (response: RazorpayFailureResponse) => void;
+}
+
+export interface RazorpayInstance {
+  open(): void;
+  close(): void;
+  on<E extends keyof RazorpayEvents>(
+    event: E,
+    listener: RazorpayEvents[E]
+  ): void;
+}
+
+declare global {
+  interface Window {
+    Razorpay?: new (options: RazorpayOptions) => RazorpayInstance;
+  }
+}
+
+function buildOptions(
+  order: PaymentBackendData,
+  callbacks: CheckoutCallbacks
+): RazorpayOptions {
+  return {
+    key: order.key,
+    amount: order.amount,
+    currency: order.currency,
+    name: order.name || "Sojourn",
+    description: order.description || "Hotel Booking",
+    image: order.image,
+    order_id: order.orderId || order.order_id,
+    prefill: order.prefill,
+    theme: order.theme,
+    retry: order.retry,
+    timeout: order.timeout,
+    remember_customer: order.remember_customer,
+    readonly: order.readonly,
+    hidden: order.hidden,
+    notes: order.notes,
+    handler: (response) =>
+      callbacks.onSuccess({
+        paymentId: response.razorpay_payment_id,
+        orderId: response.razorpay_order_id,
+        signature: response.razorpay_signature,
+      }),
+    modal: { ondismiss: callbacks.onDismiss },
+  };
+}
+
+export const RazorpayProvider: PaymentProvider = {
+  id: "razorpay",
+
+  async load() {
+    if (typeof window === "undefined") return false;
+    if (config.mockRazorpay) {
+      installMockRazorpay();
+      return true;
+    }
+    if (window.Razorpay) return true;
+    return (
+      (await PaymentUtils.loadScript(RAZORPAY_SCRIPT_URL)) && !!window.Razorpay
+    );
+  },
+
+  async open(order, bookingId, callbacks) {
+    if (!(await this.load()) || !window.Razorpay) {
+      console.error("Razorpay failed to load");
+      return null;
+    }
+
+    try {
+      const rzp = new window.Razorpay(buildOptions(order, callbacks));
+      rzp.on("payment.failed", ({ error }) =>
+        callbacks.onFailure({
+          code: error.code,
+          description: error.description,
+          reason: error.reason,
+          source: error.source,
+          step: error.step,
+          paymentId: error.metadata?.payment_id,
+          orderId: error.metadata?.order_id,
+        })
+      );
+      rzp.open();
+      return { close: () => rzp.close() };
+    } catch (error) {
+      console.error(`Payment initialization error for ${bookingId}:`, error);
+      return null;
+    }
+  },
+};
+
+export default RazorpayProvider;
@@ -0,0 +1,177 @@
+// Receipt PDF
+// Fallback when the backend has not issued an invoice: writes a single-page PDF
+// by hand (Helvetica, text only) so no PDF library is needed in the bundle.
+
+import type { Receipt } from "./receipt";
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+
+interface TextLine {
+  text: string;
+  size?: number;
+  bold?: boolean;
+  // Right-aligned amount printed on the same line
+  amount?: string;
+  gapBefore?: number;
+}
+
+// The standard fonts only cover Latin-1, so the rupee sign is spelled out
+function toPdfText(value: string): string {
+  return value
+    .replace(/₹/g, "Rs. ")
+    .replace(/[^\x20-\x7e]/g, "?")
+    .replace(/[\\()]/g, (char) => `\\${char}`);
+}
+
+// "1 night", "2 nights"
+function countOf(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+function formatAmount(amount: number): string {
+  return `Rs. ${amount.toLocaleString("en-IN", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+}
+
+function formatDate(value?: string): string {
+  if (!value) return "Not available";
+  const date = new Date(value);
+  return Number.isNaN(date.getTime())
+    ? value
+    : date.toLocaleDateString("en-IN", {
+        day: "numeric",
+        month: "short",
+        year: "numeric",
+      });
+}
+
+function receiptLines(receipt: Receipt): TextLine[] {
+  const { charges } = receipt;
+  const lines: TextLine[] = [
+    { text: "Payment Receipt", size: 20, bold: true },
+    { text: `Receipt no. ${receipt.number}`, gapBefore: 6 },
+    { text: `Issued ${formatDate(receipt.issuedAt)}` },
+    { text: receipt.hotelName || "Hotel", bold: true, gapBefore: 18 },
+  ];
+  if (receipt.hotelAddress) lines.push({ text: receipt.hotelAddress });
+
+  lines.push(
+    { text: "Billed to", bold: true, gapBefore: 14 },
+    { text: receipt.customerName || "Guest" }
+  );
+  if (receipt.customerEmail) lines.push({ text: receipt.customerEmail });
+
+  lines.push(
+    { text: "Stay", bold: true, gapBefore: 14 },
+    { text: `Booking reference: ${receipt.reference || receipt.bookingId}` },
+    { text: `Room: ${receipt.roomType || "Room"}` },
+    {
+      text: `${formatDate(receipt.checkInDate)} to ${formatDate(receipt.checkOutDate)} (${countOf(receipt.nights, "night")}, ${countOf(receipt.numberOfGuests, "guest")})`,
+    },
+    {
+      text: `Room charges (${countOf(receipt.nights, "night")})`,
+      amount: formatAmount(charges.roomCharges),
+      gapBefore: 18,
+    },
+    ...charges.discounts.map((discount) => ({
+      text: discount.label,
+      amount: `-${formatAmount(discount.amount)}`,
+    })),
+    ...charges.taxes.map((tax) => ({
+      text: tax.label,
+      amount: formatAmount(tax.amount),
+    })),
+    {
+      text: "Total paid",
+      amount: formatAmount(charges.total),
+      bold: true,
+      gapBefore: 6,
+    },
+    { text: "Payment", bold: true, gapBefore: 18 },
+    { text: `Payment ID: ${receipt.paymentId || "Not available"}` },
+    { text: `Method: ${receipt.paymentMethod || "Not available"}` },
+    { text: `Status: ${receipt.paymentStatus || "Not available"}` },
+    { text: `Processed: ${formatDate(receipt.processedAt)}` }
+  );
+
+  if (charges.estimated) {
+    lines.push({
+      text: "GST shown is calculated from the total paid. A tax invoice is issued separately.",
+      size: 8,
+      gapBefore: 24,
+    });
+  }
+  return lines;
+}
+
+// Rough Helvetica width so amounts can be right-aligned
+function textWidth(text: string, size: number): number {
+  return text.length * size * 0.5;
+}
+
+function pageContent(lines: TextLine[]): string {
+  const commands: string[] = [];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const line of lines) {
+    const size = line.size ?? 11;
+    y -= size + 4 + (line.gapBefore ?? 0);
+    const font = line.bold ? "F2" : "F1";
+    commands.push(
+      `BT /${font} ${size} Tf ${MARGIN} ${y} Td (${toPdfText(line.text)}) Tj ET`
+    );
+    if (line.amount) {
+      const amount = toPdfText(line.amount);
+      const x = PAGE_WIDTH - MARGIN - textWidth(amount, size);
+      commands.push(`BT /${font} ${size} Tf ${x} ${y} Td (${amount}) Tj ET`);
+    }
+  }
+  return commands.join("\n");
+}
+
+export function createReceiptPdf(receipt: Receipt): Blob {
+  const content = pageContent(receiptLines(receipt));
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+  ];
+
+  // Every character is ASCII, so string lengths are byte offsets
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((body, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets
+    .map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`)
+    .join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return new Blob([pdf], { type: "application/pdf" });
+}
+
+export function downloadReceiptPdf(receipt: Receipt): void {
+  if (typeof document === "undefined") return;
+
+  const url = URL.createObjectURL(createReceiptPdf(receipt));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `receipt-${receipt.reference || receipt.bookingId}.pdf`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
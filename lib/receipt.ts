@@ -0,0 +1,154 @@
+// Receipts
+// Builds the receipt for a paid booking from its payment data. The backend's GST
+// breakdown is used when it sends one; otherwise GST is worked back out of the
+// total at the pricing slab for the stay, split equally into CGST and SGST.
+// A promo discount is shown between the room charges and GST.
+
+import type { Booking } from "./booking-normalizer";
+import { countNights, roundRupees, splitInclusiveTotal } from "./pricing";
+
+// Statuses in which the booking has been paid for
+const PAID_STATUSES = ["CONFIRMED", "CHECKED_IN", "COMPLETED"];
+
+export interface ChargeLine {
+  label: string;
+  amount: number;
+}
+
+export interface ChargeBreakdown {
+  // Before discounts
+  roomCharges: number;
+  discounts: ChargeLine[];
+  taxableAmount: number;
+  taxes: ChargeLine[];
+  total: number;
+  // True when GST was derived from the total rather than sent by the backend
+  estimated: boolean;
+}
+
+export interface Receipt {
+  number: string;
+  bookingId: string;
+  reference?: string;
+  issuedAt?: string;
+  paymentId?: string;
+  orderId?: string;
+  paymentMethod?: string;
+  paymentStatus?: string;
+  processedAt?: string;
+  hotelName?: string;
+  hotelAddress?: string;
+  customerName?: string;
+  customerEmail?: string;
+  roomType?: string;
+  checkInDate: string;
+  checkOutDate: string;
+  nights: number;
+  numberOfGuests: number;
+  charges: ChargeBreakdown;
+  // Backend invoice, when one has been issued
+  invoiceUrl?: string;
+}
+
+export function getChargeBreakdown(booking: Booking): ChargeBreakdown {
+  const total = booking.payment?.totalAmount ?? booking.totalAmount;
+  const taxes = booking.payment?.taxes;
+  const discount = booking.payment?.discount;
+  const discounts: ChargeLine[] = discount
+    ? [{ label: `Promo ${discount.code}`, amount: discount.amount }]
+    : [];
+  const discountAmount = discount?.amount ?? 0;
+
+  if (taxes) {
+    const rate = taxes.gstRate;
+    const lines: ChargeLine[] = [];
+    if (taxes.igst) {
+      lines.push({
+        label: rate ? `IGST (${rate}%)` : "IGST",
+        amount: taxes.igst,
+      });
+    }
+    if (taxes.cgst) {
+      lines.push({
+        label: rate ? `CGST (${rate / 2}%)` : "CGST",
+        amount: taxes.cgst,
+      });
+    }
+    if (taxes.sgst) {
+      lines.push({
+        label: rate ? `SGST (${rate / 2}%)` : "SGST",
+        amount: taxes.sgst,
+      });
+    }
+    if (lines.length === 0) {
+      lines.push({ label: "GST", amount: taxes.totalTax });
+    }
+    return {
+      roomCharges: roundRupees(taxes.taxableAmount + discountAmount),
+      discounts,
+      taxableAmount: taxes.taxableAmount,
+      taxes: lines,
+      total,
+      estimated: false,
+    };
+  }
+
+  const { taxableAmount, gstPercent } = splitInclusiveTotal(
+    total,
+    countNights(booking.checkInDate, booking.checkOutDate)
+  );
+  const halfTax = roundRupees((total - taxableAmount) / 2);
+  return {
+    roomCharges: roundRupees(taxableAmount + discountAmount),
+    discounts,
+    taxableAmount,
+    taxes:
+      gstPercent > 0
+        ? [
+            { label: `CGST (${gstPercent / 2}%)`, amount: halfTax },
+            {
+              label: `SGST (${gstPercent / 2}%)`,
+              amount: roundRupees(total - taxableAmount - halfTax),
+            },
+          ]
+        : [],
+    total,
+    estimated: true,
+  };
+}
+
+// Receipt for a paid booking; null until payment has been confirmed
+export function buildReceipt(booking: Booking): Receipt | null {
+  if (!booking.payment || !PAID_STATUSES.includes(booking.status)) {
+    return null;
+  }
+
+  const { payment, customer } = booking;
+  const invoice = payment.invoice;
+  const customerName = [customer?.firstName, customer?.lastName]
+    .filter(Boolean)
+    .join(" ");
+
+  return {
+    number: invoice?.invoiceNumber || `RCPT-${booking.reference || booking.id}`,
+    bookingId: booking.id,
+    reference: booking.reference,
+    issuedAt: invoice?.issuedAt || payment.processedAt,
+    paymentId: payment.razorpayPaymentId,
+    orderId: payment.razorpayOrderId,
+    paymentMethod: payment.method,
+    paymentStatus: payment.status,
+    processedAt: payment.processedAt,
+    hotelName: booking.hotel.name,
+    hotelAddress: booking.hotel.address,
+    customerName: customerName || undefined,
+    customerEmail: customer?.email,
+    roomType: booking.room.type,
+    checkInDate: booking.checkInDate,
+    checkOutDate: booking.checkOutDate,
+    nights: countNights(booking.checkInDate, booking.checkOutDate),
+    numberOfGuests: booking.numberOfGuests,
+    charges: getChargeBreakdown(booking),
+    invoiceUrl: invoice?.invoiceUrl,
+  };
+}
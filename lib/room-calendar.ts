@@ -0,0 +1,78 @@
+// Room calendar helpers
+// Night-by-night occupancy for the vendor availability calendar. Dates are
+// "YYYY-MM-DD" keys (lib/dates.ts); a night belongs to the date it starts on.
+
+import type {
+  RoomBlock,
+  RoomCalendar,
+  RoomCalendarBooking,
+} from "./api-client";
+import { toDateKey, toDayKey } from "./dates";
+
+export type NightState = "booked" | "blocked" | "free";
+
+export interface NightStatus {
+  state: NightState;
+  booking?: RoomCalendarBooking;
+  block?: RoomBlock;
+}
+
+// Only these statuses hold the room
+const OCCUPYING_STATUSES = ["CONFIRMED", "PENDING", "CHECKED_IN"];
+
+// Weeks (Sunday first) covering the month; days outside the month are null
+export function getMonthGrid(year: number, month: number): (string | null)[][] {
+  const firstWeekday = new Date(year, month, 1).getDay();
+  const daysInMonth = new Date(year, month + 1, 0).getDate();
+
+  const cells: (string | null)[] = Array(firstWeekday).fill(null);
+  for (let day = 1; day <= daysInMonth; day++) {
+    cells.push(toDateKey(new Date(year, month, day)));
+  }
+  while (cells.length % 7 !== 0) {
+    cells.push(null);
+  }
+
+  const weeks: (string | null)[][] = [];
+  for (let i = 0; i < cells.length; i += 7) {
+    weeks.push(cells.slice(i, i + 7));
+  }
+  return weeks;
+}
+
+function coversNight(start: string, end: string, night: string): boolean {
+  return toDayKey(start) <= night && night < toDayKey(end);
+}
+
+export function getNightStatus(
+  night: string,
+  calendar: RoomCalendar
+): NightStatus {
+  const booking = calendar.bookings.find(
+    (b) =>
+      OCCUPYING_STATUSES.includes(b.status.toUpperCase()) &&
+      coversNight(b.checkInDate, b.checkOutDate, night)
+  );
+  if (booking) return { state: "booked", booking };
+
+  const block = calendar.blocks.find((b) =>
+    coversNight(b.startDate, b.endDate, night)
+  );
+  if (block) return { state: "blocked", block };
+
+  return { state: "free" };
+}
+
+// Bookings that hold the room on any night in [startDate, endDate)
+export function findConflicts(
+  startDate: string,
+  endDate: string,
+  calendar: RoomCalendar
+): RoomCalendarBooking[] {
+  return calendar.bookings.filter(
+    (b) =>
+      OCCUPYING_STATUSES.includes(b.status.toUpperCase()) &&
+      toDayKey(b.checkInDate) < endDate &&
+      startDate < toDayKey(b.checkOutDate)
+  );
+}
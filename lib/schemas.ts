@@ -0,0 +1,517 @@
+// Runtime schemas for backend response shapes
+// Each schema is checked against its TypeScript interface at compile time
+
+import * as v from "./validation";
+import type { Validator } from "./validation";
+import type {
+  BookingCancellation,
+  BookingDetails,
+  BookingModification,
+  BookingRefund,
+  BookingSummary,
+  CancellationTier,
+  CreatedBooking,
+  CustomerBooking,
+  GuestDetails,
+  Hotel,
+  HotelImage,
+  HotelRoom,
+  HotelSearchResult,
+  Pagination,
+  PaymentDiscount,
+  PaymentInvoice,
+  PaymentTaxes,
+  PriceQuote,
+  PriceQuoteLine,
+  PromoCode,
+  RoomAvailability,
+  RoomBlock,
+  RoomCalendar,
+  SendOtpData,
+  VendorBooking,
+  VerifiedPayment,
+  VerifyOtpData,
+} from "./api-client";
+import { USER_ROLES, User, UserRole } from "./auth";
+import { PAYMENT_PROVIDER_IDS, PaymentBackendData } from "./payment-utils";
+
+const str = v.string();
+const optStr = v.optional(str);
+const num = v.number();
+const optNum = v.optional(num);
+const bool = v.boolean();
+const strings = v.array(str);
+
+export const paginationSchema: Validator<Pagination> = v.object({
+  page: num,
+  limit: num,
+  total: num,
+  totalPages: num,
+});
+
+// Auth
+
+// Roles this app does not know about get customer access
+const userRole: Validator<UserRole> = (value, path = "value") => {
+  const result = str(value, path);
+  if (!result.ok) return result;
+
+  const known = USER_ROLES.find((role) => role === result.value);
+  return { ok: true, value: known ?? "CUSTOMER" };
+};
+
+export const userSchema: Validator<User> = v.object({
+  id: str,
+  phoneNumber: str,
+  role: userRole,
+  isActive: bool,
+});
+
+export const sendOtpSchema: Validator<SendOtpData> = v.object({
+  verificationId: str,
+  timeout: str,
+});
+
+export const verifyOtpSchema: Validator<VerifyOtpData> = v.object({
+  accessToken: str,
+  refreshToken: str,
+  user: userSchema,
+});
+
+// Sign-in through the cookie session route handler, which keeps the tokens
+export const cookieSignInSchema = v.object({
+  user: userSchema,
+});
+
+// Hotels
+
+const hotelImageSchema: Validator<HotelImage> = v.object({
+  id: str,
+  imageUrl: str,
+  thumbnailUrl: str,
+  description: str,
+  isPrimary: bool,
+  imageType: optStr,
+});
+
+export const hotelRoomSchema: Validator<HotelRoom> = v.object({
+  id: str,
+  roomType: str,
+  roomNumber: str,
+  capacity: num,
+  basePrice: num,
+  summerPrice: optNum,
+  winterPrice: optNum,
+  amenities: strings,
+  isAvailable: bool,
+  images: v.array(
+    v.object({
+      id: str,
+      imageUrl: str,
+      description: str,
+      isPrimary: bool,
+    })
+  ),
+});
+
+const cancellationTiersSchema: Validator<CancellationTier[]> = v.array(
+  v.object({
+    minDaysBefore: num,
+    refundPercent: num,
+  })
+);
+
+const bookingRefundSchema: Validator<BookingRefund> = v.object({
+  amount: num,
+  status: str,
+  expectedBy: optStr,
+});
+
+export const hotelSchema: Validator<Hotel> = v.object({
+  id: str,
+  hotelName: str,
+  category: str,
+  totalRooms: optNum,
+  amenities: v.optional(strings),
+  cancellationPolicy: optStr,
+  cancellationTiers: v.optional(cancellationTiersSchema),
+  checkInTime: optStr,
+  checkOutTime: optStr,
+  vendor: v.optional(
+    v.object({
+      businessName: optStr,
+      ownerName: optStr,
+      businessAddress: optStr,
+      contactNumbers: v.optional(strings),
+      email: optStr,
+      images: v.optional(v.array(hotelImageSchema)),
+    })
+  ),
+  rooms: v.optional(v.array(hotelRoomSchema)),
+  location: v.optional(
+    v.object({
+      googleMapsLink: str,
+      coordinates: v.object({
+        latitude: num,
+        longitude: num,
+      }),
+    })
+  ),
+  avgRating: optNum,
+  totalReviews: optNum,
+});
+
+export const hotelSearchResultSchema: Validator<HotelSearchResult> = v.object({
+  id: str,
+  hotelName: str,
+  category: str,
+  totalRooms: optNum,
+  amenities: strings,
+  checkInTime: optStr,
+  checkOutTime: optStr,
+  vendor: v.object({
+    businessName: str,
+    businessAddress: str,
+    contactNumbers: strings,
+    images: v.array(hotelImageSchema),
+  }),
+  rooms: v.array(
+    v.object({
+      id: str,
+      roomType: str,
+      capacity: num,
+      basePrice: num,
+      summerPrice: optNum,
+      winterPrice: optNum,
+      amenities: strings,
+    })
+  ),
+  avgRating: num,
+  totalReviews: num,
+  startingPrice: optNum,
+});
+
+export const hotelSearchSchema = v.object({
+  hotels: v.optional(v.array(hotelSearchResultSchema)),
+  pagination: v.optional(paginationSchema),
+});
+
+export const roomAvailabilitySchema: Validator<RoomAvailability> = v.object({
+  id: str,
+  roomType: str,
+  roomNumber: str,
+  capacity: num,
+  pricePerNight: optNum,
+  totalPrice: optNum,
+  amenities: v.optional(strings),
+  images: v.optional(
+    v.array(
+      v.object({
+        imageUrl: str,
+        isPrimary: bool,
+      })
+    )
+  ),
+});
+
+export const availabilitySchema = v.object({
+  availableRooms: v.array(roomAvailabilitySchema),
+});
+
+const priceQuoteLineSchema: Validator<PriceQuoteLine> = v.object({
+  label: str,
+  amount: num,
+});
+
+export const priceQuoteSchema: Validator<PriceQuote> = v.object({
+  quoteId: optStr,
+  lines: v.array(priceQuoteLineSchema),
+  discounts: v.optional(v.array(priceQuoteLineSchema)),
+  subtotal: num,
+  taxes: v.array(priceQuoteLineSchema),
+  totalTax: num,
+  total: num,
+  currency: optStr,
+  expiresAt: optStr,
+});
+
+export const promoCodeSchema: Validator<PromoCode> = v.object({
+  code: str,
+  description: optStr,
+  discountType: v.oneOf("PERCENTAGE", "FLAT", "FREE_NIGHTS"),
+  value: num,
+  maxDiscount: optNum,
+  minNights: optNum,
+  validFrom: optStr,
+  validUntil: optStr,
+});
+
+// Bookings
+
+const guestSchema: Validator<GuestDetails> = v.object({
+  firstName: str,
+  lastName: str,
+  age: optNum,
+  idProofType: optStr,
+  idProofNumber: optStr,
+  isPrimaryGuest: bool,
+  specialRequests: optStr,
+});
+
+export const createdBookingSchema: Validator<CreatedBooking> = v.object({
+  id: str,
+  status: str,
+});
+
+const paymentTaxesSchema: Validator<PaymentTaxes> = v.object({
+  taxableAmount: num,
+  gstRate: optNum,
+  cgst: optNum,
+  sgst: optNum,
+  igst: optNum,
+  totalTax: num,
+});
+
+const paymentDiscountSchema: Validator<PaymentDiscount> = v.object({
+  code: str,
+  description: optStr,
+  amount: num,
+});
+
+const paymentInvoiceSchema: Validator<PaymentInvoice> = v.object({
+  invoiceNumber: optStr,
+  invoiceUrl: optStr,
+  issuedAt: optStr,
+});
+
+export const bookingDetailsSchema: Validator<BookingDetails> = v.object({
+  bookingRef: str,
+  status: str,
+  checkInDate: str,
+  checkOutDate: str,
+  numberOfGuests: num,
+  totalAmount: num,
+  createdAt: str,
+  specialRequests: optStr,
+  guests: v.array(guestSchema),
+  hotel: v.object({
+    id: optStr,
+    name: str,
+    category: str,
+    address: str,
+    contactNumbers: strings,
+  }),
+  room: v.object({
+    id: optStr,
+    type: str,
+    number: str,
+    capacity: num,
+    amenities: strings,
+  }),
+  customer: v.object({
+    phoneNumber: str,
+    firstName: str,
+    lastName: str,
+    email: str,
+    emergencyContact: optStr,
+    idProofType: optStr,
+    idProofNumber: optStr,
+  }),
+  payment: v.optional(
+    v.object({
+      paymentStatus: str,
+      paymentMethod: str,
+      totalAmount: num,
+      processedAt: str,
+      razorpayPaymentId: optStr,
+      razorpayOrderId: optStr,
+      taxes: v.optional(paymentTaxesSchema),
+      discount: v.optional(paymentDiscountSchema),
+      invoice: v.optional(paymentInvoiceSchema),
+    })
+  ),
+  vendor: v.object({
+    businessName: str,
+    contactNumbers: strings,
+  }),
+  canModify: v.optional(bool),
+  cancellationTiers: v.optional(cancellationTiersSchema),
+  refund: v.optional(bookingRefundSchema),
+  holdExpiresAt: optStr,
+});
+
+export const customerBookingSchema: Validator<CustomerBooking> = v.object({
+  id: optStr,
+  checkInDate: str,
+  checkOutDate: str,
+  numberOfGuests: num,
+  totalAmount: optNum,
+  status: str,
+  booking: v.optional(
+    v.object({
+      id: optStr,
+      bookingType: optStr,
+      status: optStr,
+      payment: v.optional(
+        v.object({
+          paymentStatus: optStr,
+          paymentMethod: optStr,
+          razorpayPaymentId: optStr,
+          processedAt: optStr,
+        })
+      ),
+    })
+  ),
+  hotelProfile: v.optional(
+    v.object({
+      hotelName: optStr,
+      vendor: v.optional(
+        v.object({
+          businessName: optStr,
+          businessAddress: optStr,
+          contactNumbers: v.optional(strings),
+        })
+      ),
+    })
+  ),
+  room: v.optional(
+    v.object({
+      roomType: optStr,
+      roomNumber: optStr,
+    })
+  ),
+  canCancel: v.optional(bool),
+  canModify: v.optional(bool),
+  cancellationTiers: v.optional(cancellationTiersSchema),
+  refund: v.optional(bookingRefundSchema),
+  createdAt: str,
+  holdExpiresAt: optStr,
+});
+
+export const bookingSummarySchema: Validator<BookingSummary> = v.object({
+  totalBookings: num,
+  upcomingBookings: num,
+  completedBookings: num,
+  cancelledBookings: num,
+  totalSpent: num,
+});
+
+export const customerBookingsSchema = v.object({
+  bookings: v.array(customerBookingSchema),
+  summary: bookingSummarySchema,
+  pagination: paginationSchema,
+});
+
+// Vendor portal
+
+export const vendorRoomsSchema = v.object({
+  rooms: v.array(hotelRoomSchema),
+});
+
+export const roomBlockSchema: Validator<RoomBlock> = v.object({
+  id: str,
+  startDate: str,
+  endDate: str,
+  reason: v.oneOf("MAINTENANCE", "OFFLINE_BOOKING", "OTHER"),
+  note: optStr,
+});
+
+export const roomCalendarSchema: Validator<RoomCalendar> = v.object({
+  bookings: v.array(
+    v.object({
+      id: str,
+      status: str,
+      checkInDate: str,
+      checkOutDate: str,
+      guestName: optStr,
+    })
+  ),
+  blocks: v.array(roomBlockSchema),
+});
+
+export const vendorBookingSchema: Validator<VendorBooking> = v.object({
+  id: str,
+  bookingRef: optStr,
+  status: str,
+  checkInDate: str,
+  checkOutDate: str,
+  numberOfGuests: num,
+  totalAmount: num,
+  createdAt: str,
+  specialRequests: optStr,
+  room: v.optional(
+    v.object({
+      roomType: optStr,
+      roomNumber: optStr,
+    })
+  ),
+  customer: v.optional(
+    v.object({
+      firstName: optStr,
+      lastName: optStr,
+      phoneNumber: optStr,
+      email: optStr,
+      idProofType: optStr,
+      idProofNumber: optStr,
+    })
+  ),
+  guests: v.optional(v.array(guestSchema)),
+});
+
+export const vendorBookingsSchema = v.object({
+  bookings: v.array(vendorBookingSchema),
+  pagination: paginationSchema,
+});
+
+// Payments
+
+const paymentOrderFields = v.object({
+  provider: v.optional(v.oneOf(...PAYMENT_PROVIDER_IDS)),
+  key: str,
+  amount: num,
+  currency: str,
+  order_id: optStr,
+  orderId: optStr,
+  holdExpiresAt: optStr,
+});
+
+// The backend sends the Razorpay order id as either order_id or orderId
+export const paymentOrderSchema: Validator<PaymentBackendData> = (
+  value,
+  path = "value"
+) => {
+  const result = paymentOrderFields(value, path);
+  if (!result.ok) return result;
+
+  const orderId = result.value.orderId || result.value.order_id;
+  if (!orderId) return v.fail(`${path}.order_id`, "string", orderId);
+
+  return { ok: true, value: { ...result.value, order_id: orderId } };
+};
+
+export const verifiedPaymentSchema: Validator<VerifiedPayment | undefined> =
+  v.optional(
+    v.object({
+      invoice: v.optional(paymentInvoiceSchema),
+    })
+  );
+
+export const bookingModificationSchema: Validator<BookingModification> =
+  v.object({
+    status: str,
+    totalAmount: num,
+    priceDifference: num,
+    paymentOrder: v.optional(paymentOrderSchema),
+    refund: v.optional(bookingRefundSchema),
+  });
+
+export const bookingCancellationSchema: Validator<
+  BookingCancellation | undefined
+> = v.optional(
+  v.object({
+    status: str,
+    refund: v.optional(bookingRefundSchema),
+  })
+);
+
+export const assistantAnswerSchema: Validator<string> = str;
@@ -0,0 +1,66 @@
+// Session cookies
+// Server-side helpers for the httpOnly cookie session mode
+
+import type { NextResponse } from "next/server";
+import config from "./config";
+import { AuthService, AuthTokens } from "./auth";
+
+const cookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  sameSite: "lax" as const,
+  path: "/",
+};
+
+// Expire the cookie with the token; tokens without exp become session cookies
+function maxAgeFor(token: string): number | undefined {
+  const claims = AuthService.decodeToken(token);
+  if (!claims || typeof claims.exp !== "number") return undefined;
+  return Math.max(0, claims.exp - Math.floor(Date.now() / 1000));
+}
+
+// The access token's "exp:iat", or null when it has no exp
+function expiryFor(token: string): string | null {
+  const claims = AuthService.decodeToken(token);
+  if (!claims || typeof claims.exp !== "number") return null;
+  return typeof claims.iat === "number"
+    ? `${claims.exp}:${claims.iat}`
+    : `${claims.exp}`;
+}
+
+export function setSessionCookies(
+  response: NextResponse,
+  tokens: AuthTokens
+): void {
+  response.cookies.set(config.auth.cookies.accessToken, tokens.accessToken, {
+    ...cookieOptions,
+    maxAge: maxAgeFor(tokens.accessToken),
+  });
+  response.cookies.set(config.auth.cookies.refreshToken, tokens.refreshToken, {
+    ...cookieOptions,
+    maxAge: maxAgeFor(tokens.refreshToken),
+  });
+  // Kept while the session can be refreshed, so it outlives the access token
+  const expiry = expiryFor(tokens.accessToken);
+  response.cookies.set(config.auth.cookies.sessionExpiry, expiry ?? "", {
+    ...cookieOptions,
+    httpOnly: false,
+    maxAge: expiry ? maxAgeFor(tokens.refreshToken) : 0,
+  });
+}
+
+export function clearSessionCookies(response: NextResponse): void {
+  response.cookies.set(config.auth.cookies.accessToken, "", {
+    ...cookieOptions,
+    maxAge: 0,
+  });
+  response.cookies.set(config.auth.cookies.refreshToken, "", {
+    ...cookieOptions,
+    maxAge: 0,
+  });
+  response.cookies.set(config.auth.cookies.sessionExpiry, "", {
+    ...cookieOptions,
+    httpOnly: false,
+    maxAge: 0,
+  });
+}
@@ -0,0 +1,215 @@
+// Session manager
+// Refreshes the access token shortly before it expires and publishes session status
+
+import config from "./config";
+import { AuthService } from "./auth";
+
+export type SessionStatus = "inactive" | "active" | "refreshing" | "expired";
+
+export interface SessionState {
+  status: SessionStatus;
+  // Access token expiry on the local clock, in milliseconds
+  expiresAt: number | null;
+}
+
+type SessionListener = (state: SessionState) => void;
+
+// setTimeout overflows above ~24.8 days
+const MAX_TIMER_DELAY = 2147483647;
+
+export class SessionManager {
+  private static state: SessionState = { status: "inactive", expiresAt: null };
+  private static listeners = new Set<SessionListener>();
+  private static timer: ReturnType<typeof setTimeout> | null = null;
+  private static started = false;
+
+  // Server clock minus local clock, measured when this tab receives a fresh token
+  private static clockSkew = 0;
+
+  // Begin watching the stored token (safe to call more than once)
+  static start(): void {
+    if (typeof window === "undefined" || this.started) return;
+    this.started = true;
+
+    document.addEventListener("visibilitychange", this.handleVisibilityChange);
+    window.addEventListener("storage", this.handleStorage);
+    this.evaluate();
+  }
+
+  static stop(): void {
+    if (typeof window === "undefined" || !this.started) return;
+    this.started = false;
+
+    document.removeEventListener(
+      "visibilitychange",
+      this.handleVisibilityChange
+    );
+    window.removeEventListener("storage", this.handleStorage);
+    this.clearTimer();
+  }
+
+  static getState(): SessionState {
+    return this.state;
+  }
+
+  static subscribe(listener: SessionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Re-read the stored token and reschedule, e.g. after sign-in or sign-out
+  static evaluate(): void {
+    this.clearTimer();
+
+    const claims = this.readClaims();
+    if (!claims) {
+      this.setState({ status: "inactive", expiresAt: null });
+      return;
+    }
+
+    if (typeof claims.exp !== "number") {
+      // Nothing to schedule; authenticatedFetch still refreshes on 401
+      this.setState({ status: "active", expiresAt: null });
+      return;
+    }
+
+    const expiresAt = claims.exp * 1000 - this.clockSkew;
+    const now = Date.now();
+
+    // Paused while hidden; visibilitychange re-evaluates on return
+    if (document.hidden) {
+      this.setState({
+        status: expiresAt <= now ? "expired" : "active",
+        expiresAt,
+      });
+      return;
+    }
+
+    const delay = expiresAt - this.getRefreshMargin(claims) - now;
+    if (delay <= 0) {
+      void this.refresh(expiresAt);
+      return;
+    }
+
+    this.setState({ status: "active", expiresAt });
+    this.timer = setTimeout(
+      () => this.evaluate(),
+      Math.min(delay, MAX_TIMER_DELAY)
+    );
+  }
+
+  private static async refresh(expiresAt: number): Promise<void> {
+    this.setState({ status: "refreshing", expiresAt });
+
+    if (await this.refreshSession()) {
+      this.evaluate();
+      return;
+    }
+
+    if (!this.canRefresh() || Date.now() >= expiresAt) {
+      this.setState({ status: "expired", expiresAt });
+      return;
+    }
+
+    // Transient failure with time left on the current token: try again shortly
+    this.setState({ status: "active", expiresAt });
+    this.timer = setTimeout(
+      () => this.evaluate(),
+      config.session.retryDelaySeconds * 1000
+    );
+  }
+
+  // The access token's claims; null when signed out. In cookie mode the token
+  // is httpOnly, so they come from the expiry cookie set alongside it.
+  private static readClaims(): { exp?: number; iat?: number } | null {
+    if (AuthService.usesCookieSession()) {
+      if (!AuthService.isAuthenticated()) return null;
+      return AuthService.getCookieSessionClaims() ?? {};
+    }
+
+    const token = AuthService.getAccessToken();
+    return token ? (AuthService.decodeToken(token) ?? {}) : null;
+  }
+
+  private static async refreshSession(): Promise<boolean> {
+    if (AuthService.usesCookieSession()) {
+      const refreshed = await AuthService.refreshCookieSession();
+      const claims = refreshed ? AuthService.getCookieSessionClaims() : null;
+      if (claims) this.measureClockSkew(claims);
+      return refreshed;
+    }
+
+    const token = await AuthService.refreshAccessToken();
+    const claims = token ? AuthService.decodeToken(token) : null;
+    if (claims) this.measureClockSkew(claims);
+    return !!token;
+  }
+
+  // The refresh route clears the expiry cookie along with the tokens when the
+  // session cannot be refreshed
+  private static canRefresh(): boolean {
+    return AuthService.usesCookieSession()
+      ? AuthService.getCookieSessionClaims() !== null
+      : !!AuthService.getRefreshToken();
+  }
+
+  // Refresh ahead of expiry, but never earlier than halfway through the token's lifetime
+  private static getRefreshMargin(claims: { exp?: number; iat?: number }) {
+    const margin = config.session.refreshMarginSeconds * 1000;
+    if (typeof claims.exp !== "number" || typeof claims.iat !== "number") {
+      return margin;
+    }
+    return Math.min(margin, ((claims.exp - claims.iat) * 1000) / 2);
+  }
+
+  // A freshly issued token's iat is the server's "now"
+  private static measureClockSkew(claims: { iat?: number }): void {
+    if (typeof claims.iat !== "number") return;
+
+    const skew = claims.iat * 1000 - Date.now();
+    const limit = config.session.maxClockSkewSeconds * 1000;
+    this.clockSkew = Math.max(-limit, Math.min(limit, skew));
+  }
+
+  private static setState(next: SessionState): void {
+    if (
+      next.status === this.state.status &&
+      next.expiresAt === this.state.expiresAt
+    ) {
+      return;
+    }
+    this.state = next;
+    this.listeners.forEach((listener) => listener(next));
+  }
+
+  private static clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private static handleVisibilityChange = () => {
+    if (document.hidden) {
+      SessionManager.clearTimer();
+    } else {
+      SessionManager.evaluate();
+    }
+  };
+
+  // Another tab signed in, signed out or refreshed the token (in cookie mode
+  // only the user is stored)
+  private static handleStorage = (event: StorageEvent) => {
+    if (
+      event.key === null ||
+      event.key === AuthService.ACCESS_TOKEN_KEY ||
+      event.key === AuthService.USER_KEY
+    ) {
+      SessionManager.evaluate();
+    }
+  };
+}
+
+export default SessionManager;
@@ -0,0 +1,19 @@
+// React binding for SessionManager
+
+import { useEffect, useSyncExternalStore } from "react";
+import SessionManager, { SessionState } from "./session-manager";
+
+const SERVER_STATE: SessionState = { status: "inactive", expiresAt: null };
+
+const subscribe = (listener: () => void) => SessionManager.subscribe(listener);
+const getState = () => SessionManager.getState();
+const getServerState = () => SERVER_STATE;
+
+// Start the session scheduler and re-render on session status changes
+export function useSession(): SessionState {
+  useEffect(() => {
+    SessionManager.start();
+  }, []);
+
+  return useSyncExternalStore(subscribe, getState, getServerState);
+}
@@ -0,0 +1,16 @@
+// React binding for PaymentReconciler
+
+import { useSyncExternalStore } from "react";
+import PaymentReconciler, { UnverifiedPayment } from "./payment-reconciler";
+
+const SERVER_STATE: UnverifiedPayment[] = [];
+
+const subscribe = (listener: () => void) =>
+  PaymentReconciler.subscribe(listener);
+const getState = () => PaymentReconciler.getUnverified();
+const getServerState = () => SERVER_STATE;
+
+// Payments stored for the signed-in user that the backend has not confirmed yet
+export function useUnverifiedPayments(): UnverifiedPayment[] {
+  return useSyncExternalStore(subscribe, getState, getServerState);
+}
@@ -0,0 +1,142 @@
+// Declarative runtime validators for backend payloads
+// Each validator checks an unknown value and returns a typed value or a list of issues
+
+export interface ValidationIssue {
+  path: string;
+  expected: string;
+  actual: string;
+}
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; issues: ValidationIssue[] };
+
+export type Validator<T> = (
+  value: unknown,
+  path?: string
+) => ValidationResult<T>;
+
+export type Infer<V> = V extends Validator<infer T> ? T : never;
+
+type Shape = Record<string, Validator<unknown>>;
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: undefined extends Infer<S[K]> ? K : never;
+}[keyof S];
+
+type RequiredKeys<S extends Shape> = Exclude<keyof S, OptionalKeys<S>>;
+
+type ObjectOf<S extends Shape> = {
+  [K in RequiredKeys<S>]: Infer<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: Infer<S[K]>;
+};
+
+// Describe the runtime type of a value for error messages
+export function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+// Build a failed result for a single issue
+export function fail<T>(
+  path: string,
+  expected: string,
+  value: unknown
+): ValidationResult<T> {
+  return { ok: false, issues: [{ path, expected, actual: describe(value) }] };
+}
+
+function primitive<T>(expected: string): Validator<T> {
+  return (value, path = "value") =>
+    typeof value === expected
+      ? { ok: true, value: value as T }
+      : fail(path, expected, value);
+}
+
+export function string(): Validator<string> {
+  return primitive<string>("string");
+}
+
+export function number(): Validator<number> {
+  return (value, path = "value") =>
+    typeof value === "number" && !Number.isNaN(value)
+      ? { ok: true, value }
+      : fail(path, "number", value);
+}
+
+export function boolean(): Validator<boolean> {
+  return primitive<boolean>("boolean");
+}
+
+// Accept one of a fixed set of string values
+export function oneOf<T extends string>(...values: T[]): Validator<T> {
+  return (value, path = "value") =>
+    typeof value === "string" && (values as string[]).includes(value)
+      ? { ok: true, value: value as T }
+      : fail(path, values.map((v) => `"${v}"`).join(" | "), value);
+}
+
+// Missing and null values are both treated as absent
+export function optional<T>(validator: Validator<T>): Validator<T | undefined> {
+  return (value, path = "value") =>
+    value === undefined || value === null
+      ? { ok: true, value: undefined }
+      : validator(value, path);
+}
+
+export function array<T>(item: Validator<T>): Validator<T[]> {
+  return (value, path = "value") => {
+    if (!Array.isArray(value)) return fail(path, "array", value);
+
+    const items: T[] = [];
+    const issues: ValidationIssue[] = [];
+    value.forEach((entry, index) => {
+      const result = item(entry, `${path}[${index}]`);
+      if (result.ok) items.push(result.value);
+      else issues.push(...result.issues);
+    });
+
+    return issues.length > 0
+      ? { ok: false, issues }
+      : { ok: true, value: items };
+  };
+}
+
+// Validate the declared keys; undeclared keys are passed through untouched
+export function object<S extends Shape>(shape: S): Validator<ObjectOf<S>> {
+  return (value, path = "value") => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      return fail(path, "object", value);
+    }
+
+    const input = value as Record<string, unknown>;
+    const output: Record<string, unknown> = { ...input };
+    const issues: ValidationIssue[] = [];
+
+    for (const key of Object.keys(shape)) {
+      const result = shape[key](input[key], `${path}.${key}`);
+      if (result.ok) output[key] = result.value;
+      else issues.push(...result.issues);
+    }
+
+    return issues.length > 0
+      ? { ok: false, issues }
+      : { ok: true, value: output as ObjectOf<S> };
+  };
+}
+
+// Format issues for logs and user-facing error messages
+export function formatIssues(issues: ValidationIssue[], limit = 3): string {
+  const shown = issues
+    .slice(0, limit)
+    .map(
+      (issue) =>
+        `${issue.path}: expected ${issue.expected}, got ${issue.actual}`
+    );
+  if (issues.length > limit) {
+    shown.push(`and ${issues.length - limit} more`);
+  }
+  return shown.join("; ");
+}
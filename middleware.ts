@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import appConfig from "./lib/config";
+
+// Redirect signed-out visitors before protected pages render (cookie session mode only;
+// localStorage sessions are invisible to the server and are guarded by RequireAuth)
+export function middleware(request: NextRequest) {
+  if (appConfig.auth.storageMode !== "cookie") {
+    return NextResponse.next();
+  }
+
+  const { cookies, nextUrl } = request;
+  // An expired access token is refreshed by the client through the refresh cookie
+  if (
+    cookies.has(appConfig.auth.cookies.accessToken) ||
+    cookies.has(appConfig.auth.cookies.refreshToken)
+  ) {
+    return NextResponse.next();
+  }
+
+  const signInUrl = new URL("/auth", request.url);
+  signInUrl.searchParams.set("returnUrl", nextUrl.pathname + nextUrl.search);
+  return NextResponse.redirect(signInUrl);
+}
+
+export const config = {
+  matcher: [
+    "/bookings/:path*",
+    "/dashboard/:path*",
+    "/hotels/ai",
+    "/hotels/:id/book/:roomId",
+    "/vendor/:path*",
+  ],
+};